@@ -4,6 +4,7 @@ import { getOption } from '@/options'
 import {
   // wrap
   getVisibleScopes,
+  getCustomScopeDefs,
   getDefaultFormatId,
   makeStorageChangeHandler,
   updateCopyStats,
@@ -15,6 +16,7 @@ import {
 import { getConfiguredFormat } from '@/configured-format'
 import { offscreenActions } from '@/offscreen-actions'
 import { migrateV3Data } from '@/v3-migration'
+import { listenForOpenMessage } from '@/open'
 import { notification } from '@/util/notification'
 import { sentenceCase } from '@/util/string'
 import { serializer } from '@/util/async'
@@ -34,6 +36,20 @@ const commandNameScopeId: Record<string, ScopeId> = {
   '2copy-window-tabs': 'window-tabs',
   '3copy-all-tabs': 'all-tabs',
   '4copy-all-windows-and-tabs': 'all-windows-and-tabs',
+  '5copy-group-tabs': 'group-tabs',
+  '6copy-left-tabs': 'left-tabs',
+  '7copy-right-tabs': 'right-tabs',
+  '8copy-domain-tabs': 'domain-tabs',
+  '9copy-other-windows': 'other-windows',
+  'acopy-audible-tabs': 'audible-tabs',
+  'ecopy-recently-closed': 'recently-closed',
+} as const
+
+// custom scopes are bound to commands by their order in options
+const commandNameCustomScopeIndex: Record<string, number> = {
+  'bcopy-custom-scope-1': 0,
+  'ccopy-custom-scope-2': 1,
+  'dcopy-custom-scope-3': 2,
 } as const
 
 log(`service worker loaded ${new Date().toLocaleString()}`)
@@ -109,6 +125,9 @@ chrome.runtime.onInstalled.addListener(
 // fires on leaf nodes and branch nodes with empty `items`
 chrome.contextMenus.onClicked.addListener(handleMenuAction)
 
+// open tabs from clipboard content on behalf of the popup
+listenForOpenMessage()
+
 enqueue(() => setIcon('logo'))
 enqueue(setIconAction)
 
@@ -118,7 +137,7 @@ chrome.runtime.onStartup.addListener(() => {
 })
 
 chrome.commands.onCommand.addListener(async (commandName) => {
-  const scopeId = commandNameScopeId[commandName]
+  const scopeId = commandNameScopeId[commandName] ?? (await getCommandCustomScopeId(commandName))
 
   if (!scopeId) {
     console.warn(`no scope found for command ${commandName}`)
@@ -233,6 +252,8 @@ const optionAndScopeAndFormatChanges = [
   // wrap
   ...optionAndFormatChanges,
   'hiddenScopeIds',
+  'shownScopeIds',
+  'customScopes',
 ]
 
 chrome.storage.onChanged.addListener(
@@ -268,6 +289,16 @@ chrome.action.onClicked.addListener(async () => {
   }
 })
 
+async function getCommandCustomScopeId(commandName: string) {
+  const index = commandNameCustomScopeIndex[commandName]
+
+  if (index === undefined) return
+
+  const customScopeDefs = await getCustomScopeDefs()
+
+  return customScopeDefs[index]?.id
+}
+
 async function setIconAction() {
   const enablePopup = (await getOption('enablePopup')).value
 
@@ -1,6 +1,7 @@
 import {
   getFormat,
   isFormatWithOptsId,
+  isBuiltinFormatWithOptsId,
   FormatId,
   FormatOpts,
   FormatWithOpts,
@@ -46,11 +47,15 @@ async function makeConfiguredFormat<T extends FormatId>(
 ): Promise<ConfiguredFormat<T>> {
   const format = getFormat(id)
 
+  const defaultOpts = isFormatWithOptsId(id) ? (format as FormatWithOpts).opts : undefined
+  const storedOpts = isFormatWithOptsId(id) ? await getFormatOpts(id) : undefined
+
+  // builtin format opts stored by a previous version may lack newly added opts, so they are layered over default opts
   const opts = (
-    isFormatWithOptsId(id)
-      ? ((await getFormatOpts(id)) ?? (format as FormatWithOpts).opts) // fall back to default opts
-      : undefined
-  ) as FormatOpts[T]
+    storedOpts && isBuiltinFormatWithOptsId(id)
+      ? { ...defaultOpts, ...(storedOpts as object) }
+      : (storedOpts ?? defaultOpts)
+  ) as FormatOpts[T] // fall back to default opts
 
   return {
     id,
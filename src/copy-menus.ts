@@ -1,6 +1,7 @@
 import { isFormatId, FormatId } from '@/format'
 import { getConfiguredFormats, getConfiguredFormat, ConfiguredFormat } from '@/configured-format'
 import { getRepresentationsForTabs } from '@/copy'
+import { makePageMetadataResolver } from '@/page-metadata'
 import { getOption } from '@/options'
 import { getDefaultFormatId, setCopyStatus } from '@/storage'
 import { offscreenActions } from '@/offscreen-actions'
@@ -18,6 +19,11 @@ import { intl } from '@/intl'
 const COPY_TAB_MENU_ID = 'copyTab'
 const COPY_ITEM_MENU_ID = 'copyItem'
 
+// opt-in page menu that coincides with the `copyTab` menu, which causes chrome to nest both under a parent menu with the extension's name
+const OPEN_FROM_CLIPBOARD_MENU_ID = 'openFromClipboard'
+
+const openFromClipboardMenu = contextMenu(OPEN_FROM_CLIPBOARD_MENU_ID)
+
 const copyMenus = [
   {
     id: COPY_TAB_MENU_ID,
@@ -94,6 +100,18 @@ export async function handleMenuAction(
 ) {
   // console.log('menu click', JSON.stringify({ menuItemId, linkUrl, srcUrl, tab }, undefined, 2))
 
+  if (menuItemId === OPEN_FROM_CLIPBOARD_MENU_ID) {
+    // service workers cannot read the clipboard, so open a window that previews and opens clipboard content
+    await chrome.windows.create({
+      url: chrome.runtime.getURL('popup.html?open'),
+      type: 'popup',
+      width: 280,
+      height: 420,
+    })
+
+    return
+  }
+
   const { copySubject, formatId } =
     menuItemId === COPY_TAB_MENU_ID
       ? {
@@ -130,9 +148,13 @@ export async function handleMenuAction(
   try {
     // use offscreen action because extension service workers do not have direct access to the Clipboard API
     const success = await offscreenActions.copyToClipboard(
-      getRepresentationsForTabs({
+      await getRepresentationsForTabs({
         tabs: [tabToCopy],
         format,
+        context: {
+          // page metadata describes the tab's page, not the link or media being copied
+          getPageMetadata: copySubject === 'tab' ? makePageMetadataResolver() : undefined,
+        },
       }),
     )
 
@@ -185,10 +207,23 @@ export async function refreshMenus() {
   const enableContextMenu = (await getOption('showContextMenu')).value
 
   if (!enableContextMenu) {
-    await Promise.all([copyTabMenu.menu.remove(), copyItemMenu.menu.remove()])
+    await Promise.all([
+      copyTabMenu.menu.remove(),
+      copyItemMenu.menu.remove(),
+      openFromClipboardMenu.remove(),
+    ])
     return
   }
 
+  if ((await getOption('showOpenFromClipboardMenu')).value) {
+    await openFromClipboardMenu.refresh({
+      title: sentenceCase(intl.openFromClipboard()),
+      contexts: ['page'],
+    })
+  } else {
+    await openFromClipboardMenu.remove()
+  }
+
   const provideFormatSelection = (await getOption('provideContextMenuFormatSelection')).value
 
   if (provideFormatSelection) {
@@ -1,47 +1,70 @@
-import { ScopeId, isTabScopeId } from '@/scope'
-import { Transforms } from '@/format'
+import { ScopeId, isTabScopeId, isCustomScopeId } from '@/scope'
+import { getCustomScopeTabs } from '@/custom-scope'
+import { getRecentlyClosedWindows } from '@/recently-closed'
+import { nxsTransform, Transforms, TextTransform } from '@/format'
 import { ConfiguredFormat } from '@/configured-format'
-import { getOption } from '@/options'
+import { makePageMetadataResolver, PageMetadata } from '@/page-metadata'
+import { getTabFilter } from '@/tab-filter'
 import { setCopyStatus } from '@/storage'
 import { offscreenActions } from '@/offscreen-actions'
 import { clipboardWrite, Representations } from '@/util/clipboard'
-import { getWindowsAndTabs, getTabs, TabPredicate } from '@/util/tabs'
+import { getWindows, getTabs, getTabGroups, groupTabsByWindow } from '@/util/tabs'
 import { log } from '@/util/log'
 
+// copies the tabs or windows of a scope, or an explicit list of tabs, eg tabs picked in the popup
+// - explicit tabs are not subject to the tab filter
 export async function copy({
   scopeId,
+  tabs,
   format,
   useLegacyClipboardWrite,
-}: {
-  scopeId: ScopeId
+}: CopySource & {
   format: ConfiguredFormat
   useLegacyClipboardWrite?: boolean
 }) {
-  log(`copying scope ${scopeId}...`, { separate: true })
+  log(tabs ? `copying ${tabs.length} picked tabs...` : `copying scope ${scopeId}...`, {
+    separate: true,
+  })
 
-  const ignorePinnedTabs = (await getOption('ignorePinnedTabs')).value
-
-  const filter: TabPredicate | undefined = ignorePinnedTabs // wrap
-    ? ({ pinned }) => !pinned
-    : undefined
+  const filter = await getTabFilter()
 
   let items: chrome.tabs.Tab[] | chrome.windows.Window[]
 
   const copyStatusProps = {
-    type: isTabScopeId(scopeId) ? 'tab' : 'window',
+    type: tabs || isTabScopeId(scopeId) ? 'tab' : 'window',
     formatId: format.id,
   } as const
 
   try {
-    const representations = isTabScopeId(scopeId)
-      ? getRepresentationsForTabs({
-          tabs: (items = await getTabs(scopeId, filter)),
-          format,
-        })
-      : getRepresentationsForWindows({
-          windows: (items = await getWindowsAndTabs(filter)),
+    const groups = await getTabGroups()
+
+    const representations = tabs
+      ? await getRepresentationsForTabs({
+          tabs: (items = tabs),
           format,
+          context: { groups, getPageMetadata: makePageMetadataResolver() },
         })
+      : isTabScopeId(scopeId)
+        ? await getRepresentationsForTabs({
+            tabs: (items = isCustomScopeId(scopeId)
+              ? await getCustomScopeTabs(scopeId, filter)
+              : await getTabs(scopeId, filter)),
+            format,
+            context: { groups, getPageMetadata: makePageMetadataResolver() },
+          })
+        : await getRepresentationsForWindows({
+            windows: (items =
+              scopeId === 'recently-closed'
+                ? await getRecentlyClosedWindows(filter)
+                : await getWindows(scopeId, filter)),
+            format,
+            context: {
+              groups,
+              // recently closed tabs have no pages to read
+              getPageMetadata:
+                scopeId === 'recently-closed' ? undefined : makePageMetadataResolver(),
+            },
+          })
 
     if (useLegacyClipboardWrite) {
       const success = await offscreenActions.copyToClipboard(representations)
@@ -70,52 +93,83 @@ export async function copy({
   return items.length
 }
 
-export function getRepresentationsForTabs({
+type CopySource =
+  | {
+      scopeId: ScopeId
+      tabs?: undefined
+    }
+  | {
+      scopeId?: undefined
+      tabs: chrome.tabs.Tab[]
+    }
+
+// data that transforms draw from in addition to tabs and windows
+export type TransformContext = {
+  groups?: chrome.tabGroups.TabGroup[]
+  // resolves page token values of a tab. only called when transforms use page metadata. page tokens are empty without it.
+  getPageMetadata?: (tab: chrome.tabs.Tab) => Promise<PageMetadata | undefined>
+}
+
+export async function getRepresentationsForTabs({
   tabs,
   format,
+  context,
 }: {
   tabs: chrome.tabs.Tab[]
   format: ConfiguredFormat
+  context?: TransformContext
 }) {
-  return getRepresentations(tabs, applyTextTransformToTabs, format)
+  return getRepresentations(
+    tabs,
+    applyTextTransformToTabs,
+    format,
+    groupTabsByWindow(tabs),
+    context,
+  )
 }
 
-function getRepresentationsForWindows({
+async function getRepresentationsForWindows({
   windows,
   format,
+  context,
 }: {
   windows: chrome.windows.Window[]
   format: ConfiguredFormat
+  context?: TransformContext
 }) {
-  return getRepresentations(windows, applyTextTransformToWindows, format)
+  return getRepresentations(windows, applyTextTransformToWindows, format, windows, context)
 }
 
-function getRepresentations<T extends chrome.tabs.Tab[] | chrome.windows.Window[]>(
+async function getRepresentations<T extends chrome.tabs.Tab[] | chrome.windows.Window[]>(
   items: T,
   applyTextTransform: (
     items: T,
     transforms: Transforms,
     representation: 'text' | 'html',
     formatName: string,
-  ) => string,
+    context?: TransformContext,
+  ) => Promise<string>,
   format: ConfiguredFormat,
-): Representations {
+  windows: chrome.windows.Window[], // nxs representation is always window-structured
+  context?: TransformContext,
+): Promise<Representations> {
   const { label, transforms } = format
 
-  // todo: generate and normalize nxs output
-
   return {
-    text: applyTextTransform(items, transforms, 'text', label),
-    ...(transforms.html ? { html: applyTextTransform(items, transforms, 'html', label) } : null),
-    // ...(transforms.nxs ? { nxs: nxsTransform(items, transforms.nxs) } : null), // todo: use separate nxsTransform per scopeType?
+    text: await applyTextTransform(items, transforms, 'text', label, context),
+    ...(transforms.html
+      ? { html: await applyTextTransform(items, transforms, 'html', label, context) }
+      : null),
+    nxs: (transforms.nxs ?? nxsTransform)(windows),
   }
 }
 
-function applyTextTransformToTabs(
+async function applyTextTransformToTabs(
   tabs: chrome.tabs.Tab[],
   transforms: Transforms,
   representation: 'text' | 'html',
   formatName: string,
+  { groups = [], getPageMetadata }: TransformContext = {},
 ) {
   const transform = transforms[representation]
 
@@ -133,15 +187,27 @@ function applyTextTransformToTabs(
     )
   }
 
+  const pages = await resolvePages(tabs, transforms, getPageMetadata)
+
   return `${
     transform.start?.({
       formatName,
       tabCount: tabs.length,
       scopeType: 'tab',
     }) ?? ''
-  }${tabs
-    .map((tab, i) => transform.tab?.({ tab, globalSeq: i + 1 }) ?? '')
-    .join(transform.tabDelimiter ?? '')}${
+  }${transformTabs({
+    tabs,
+    transform,
+    groups: getGroupMap(groups),
+    nextGroupSeq: makeSeq(),
+    transformTab: (tab, ti, group) =>
+      transform.tab?.({
+        tab,
+        globalSeq: ti + 1,
+        group,
+        page: pages.get(tab),
+      }) ?? '',
+  })}${
     transform.end?.({
       formatName,
       tabCount: tabs.length,
@@ -149,11 +215,12 @@ function applyTextTransformToTabs(
   }`
 }
 
-export function applyTextTransformToWindows(
+export async function applyTextTransformToWindows(
   windows: chrome.windows.Window[],
   transforms: Transforms,
   representation: 'text' | 'html',
   formatName: string,
+  { groups = [], getPageMetadata }: TransformContext = {},
 ) {
   const transform = transforms[representation]
 
@@ -173,6 +240,11 @@ export function applyTextTransformToWindows(
 
   const allTabs = windows.flatMap(({ tabs }) => tabs).filter((tab): tab is chrome.tabs.Tab => !!tab)
 
+  const pages = await resolvePages(allTabs, transforms, getPageMetadata)
+
+  const groupMap = getGroupMap(groups)
+  const nextGroupSeq = makeSeq()
+
   let globalSeq = 1
 
   return `${
@@ -192,18 +264,23 @@ export function applyTextTransformToWindows(
             windowCount: windows.length,
             windowTabCount: (window.tabs ?? []).length,
           }) ?? ''
-        }${(window.tabs ?? [])
-          .map(
-            (tab, ti) =>
-              transform.tab?.({
-                tab,
-                globalSeq: globalSeq++,
-                windowTabSeq: ti + 1,
-                windowSeq: wi + 1,
-                windowCount: windows.length,
-              }) ?? '',
-          )
-          .join(transform.tabDelimiter ?? '')}${
+        }${transformTabs({
+          tabs: window.tabs ?? [],
+          transform,
+          groups: groupMap,
+          nextGroupSeq,
+          windowSeq: wi + 1,
+          transformTab: (tab, ti, group) =>
+            transform.tab?.({
+              tab,
+              globalSeq: globalSeq++,
+              windowTabSeq: ti + 1,
+              windowSeq: wi + 1,
+              windowCount: windows.length,
+              group,
+              page: pages.get(tab),
+            }) ?? '',
+        })}${
           transform.windowEnd?.({
             window,
             seq: wi + 1,
@@ -220,3 +297,99 @@ export function applyTextTransformToWindows(
     }) ?? ''
   }`
 }
+
+// transforms and delimits tabs, wrapping each run of consecutive tabs in the same tab group with `groupStart` and `groupEnd`
+function transformTabs({
+  tabs,
+  transform,
+  groups,
+  nextGroupSeq,
+  windowSeq,
+  transformTab,
+}: {
+  tabs: chrome.tabs.Tab[]
+  transform: TextTransform
+  groups: Map<number, chrome.tabGroups.TabGroup>
+  nextGroupSeq: () => number
+  windowSeq?: number
+  transformTab: (tab: chrome.tabs.Tab, ti: number, group?: chrome.tabGroups.TabGroup) => string
+}) {
+  let groupInfo: Parameters<NonNullable<TextTransform['groupStart']>>[0] | undefined
+
+  return tabs
+    .map((tab, ti) => {
+      const group = groups.get(tab.groupId)
+
+      if (!group) return transformTab(tab, ti)
+
+      let groupStart = ''
+
+      if (tabs[ti - 1]?.groupId !== tab.groupId) {
+        const groupTabCount = getGroupRunLength(tabs, ti)
+
+        groupInfo = {
+          group,
+          seq: nextGroupSeq(),
+          groupTabCount,
+          windowSeq,
+          isFirst: ti === 0,
+          isLast: ti + groupTabCount === tabs.length,
+        }
+
+        groupStart = transform.groupStart?.(groupInfo) ?? ''
+      }
+
+      const tabText = transformTab(tab, ti, group)
+
+      const groupEnd =
+        tabs[ti + 1]?.groupId !== tab.groupId // wrap
+          ? (transform.groupEnd?.(groupInfo!) ?? '')
+          : ''
+
+      return `${groupStart}${tabText}${groupEnd}`
+    })
+    .join(transform.tabDelimiter ?? '')
+}
+
+// count of consecutive tabs starting at index `start` that share its group
+function getGroupRunLength(tabs: chrome.tabs.Tab[], start: number) {
+  let end = start + 1
+
+  while (end < tabs.length && tabs[end].groupId === tabs[start].groupId) {
+    end++
+  }
+
+  return end - start
+}
+
+// resolves page token values of tabs, if the transforms use them. tabs are resolved in parallel and each tab falls back to empty page tokens on its own.
+async function resolvePages(
+  tabs: chrome.tabs.Tab[],
+  { usesPageMetadata }: Transforms,
+  getPageMetadata: TransformContext['getPageMetadata'],
+) {
+  const pages = new Map<chrome.tabs.Tab, PageMetadata>()
+
+  if (!usesPageMetadata || !getPageMetadata) return pages
+
+  await Promise.all(
+    tabs.map(async (tab) => {
+      const page = await getPageMetadata(tab)
+
+      if (page) {
+        pages.set(tab, page)
+      }
+    }),
+  )
+
+  return pages
+}
+
+function getGroupMap(groups: chrome.tabGroups.TabGroup[]) {
+  return new Map(groups.map((group) => [group.id, group]))
+}
+
+function makeSeq() {
+  let seq = 1
+  return () => seq++
+}
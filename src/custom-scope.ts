@@ -0,0 +1,41 @@
+import { CustomScopeDef, CustomScopeId } from '@/scope'
+import { getCustomScopeDef, getCustomScopeDefs } from '@/storage'
+import { getTabPredicate, isValidTabFilterRule } from '@/tab-filter'
+import { getTabs, TabFilter } from '@/util/tabs'
+
+// tabs matching the rules of a custom scope, subject to the tab filter
+// - may return empty array
+export async function getCustomScopeTabs(id: CustomScopeId, filter?: TabFilter) {
+  const def = await getCustomScopeDef(id)
+
+  return def // wrap
+    ? getCustomScopeDefTabs(def, filter)
+    : []
+}
+
+// gets tab counts for all custom scopes
+export async function getCustomScopeTabCounts(filter?: TabFilter) {
+  const counts: { [k in CustomScopeId]?: number } = {}
+
+  for (const def of await getCustomScopeDefs()) {
+    counts[def.id] = (await getCustomScopeDefTabs(def, filter)).length
+  }
+
+  return counts
+}
+
+// a custom scope needs a name and at least one valid rule
+export function isValidCustomScopeDef({ name, rules }: CustomScopeDef) {
+  return !!name.trim() && rules.some(isValidTabFilterRule)
+}
+
+// unlike the tab filter, a custom scope without valid rules matches no tabs
+async function getCustomScopeDefTabs({ rules, currentWindow }: CustomScopeDef, filter?: TabFilter) {
+  const predicate = await getTabPredicate(rules)
+
+  if (!predicate) return []
+
+  const tabs = await getTabs(currentWindow ? 'window-tabs' : 'all-tabs', filter)
+
+  return tabs.filter(predicate)
+}
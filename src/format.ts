@@ -1,15 +1,45 @@
 import {
   // wrap
   getFieldTokens,
+  renderTemplate,
+  getVariableTokens,
+  usesPageTokens,
+  isEscapeMode,
+  EscapeMode,
+  Token,
+  TemplateVariable,
   TemplateFieldId,
   TokenValueSources,
 } from '@/template-field'
+import { parseTemplate, TemplateNode } from '@/template'
+import { hasTemplateErrors, hasVariableErrors } from '@/template-lint'
+import { PageMetadata } from '@/page-metadata'
 import { ScopeType } from '@/scope'
 import { getConfiguredFormat } from '@/configured-format'
 import { intl } from '@/intl'
 import { sentenceCase, indent, encodeHtml } from '@/util/string'
-import { stringifyCSVRow } from '@/util/csv'
+import { stringifyCSVRow, CSVDelimiter, CSVQuoting, FieldValue } from '@/util/csv'
+import { highlightJson } from '@/util/json'
+import {
+  serializeJson,
+  serializeNdjson,
+  serializeYaml,
+  serializeXml,
+  serializeToml,
+  SerializableValue,
+} from '@/util/serialize'
+import { getMarkupHeading, getMarkupLink, getMarkupListMarker, Markup } from '@/util/markup'
+import {
+  getMarkdownLink,
+  getMarkdownHeading,
+  getMarkdownListMarker,
+  escapeMarkdownText,
+  escapeMarkdownUrl,
+  MarkdownFlavor,
+  MarkdownListStyle,
+} from '@/util/markdown'
 import { NxsMimeContent } from '@/util/nxs-mime-type'
+import { isValidLocale, isValidTimeZone, LocalizedDate } from '@/util/date'
 
 // This file contains hardcoded builtin and custom format specs
 
@@ -23,6 +53,13 @@ const DEFAULT_LINK_PLAINTEXT_FALLBACK = 'url'
 const DEFAULT_TITLE_URL_1_LINE_SEPARATOR = ': '
 const DEFAULT_CUSTOM_FORMAT_NAME = 'Custom format'
 const DEFAULT_INDENT_SIZE = 2
+const BOOKMARK_INDENT_SIZE = 4 // consistent with browser bookmark exports
+const DEFAULT_MARKDOWN_FLAVOR: MarkdownFlavor = 'commonmark'
+const DEFAULT_MARKDOWN_LIST_STYLE: MarkdownListStyle = 'none'
+const DEFAULT_MARKDOWN_HEADING_LEVEL = 2
+const DEFAULT_STRUCTURED_TAB_PROPERTIES: TabProperty[] = ['title', 'url']
+const DEFAULT_CSV_COLUMNS: CsvColumnId[] = ['window', 'title', 'url']
+const DEFAULT_HTML_TABLE_COLUMNS: HtmlTableColumnId[] = ['window', 'title', 'url']
 export const MAX_INDENT_SIZE = 10 // consistent with JSON.stringify() max
 
 type BuiltinFormat = (typeof builtinFormats)[number]
@@ -37,6 +74,104 @@ export type FormatId = BuiltinFormatId | CustomFormatId
 export type FormatWithOptsId = BuiltinFormatWithOptsId | CustomFormatId
 export type FormatWithOpts = BuiltinFormatWithOpts | CustomFormat
 
+export const csvColumnIds = [
+  'window',
+  'index',
+  'title',
+  'url',
+  'host',
+  'favIconUrl',
+  'pinned',
+  'groupId',
+  'lastAccessed',
+] as const
+
+export type CsvColumnId = (typeof csvColumnIds)[number]
+
+// all serializable tab properties
+export const tabProperties = [
+  'title',
+  'url',
+  'favIconUrl',
+  'id',
+  'windowId',
+  'index',
+  'pinned',
+  'active',
+  'highlighted',
+  'audible',
+  'mutedInfo',
+  'discarded',
+  'autoDiscardable',
+  'groupId',
+  'openerTabId',
+  'lastAccessed',
+  'incognito',
+  'status',
+  'width',
+  'height',
+] as const
+
+export type TabProperty = (typeof tabProperties)[number]
+
+export const windowProperties = [
+  'id',
+  'focused',
+  'incognito',
+  'state',
+  'type',
+  'alwaysOnTop',
+  'top',
+  'left',
+  'width',
+  'height',
+] as const
+
+export type WindowProperty = (typeof windowProperties)[number]
+
+// - nested: windows with nested tabs
+// - flat: tabs with a windowId property
+// - keyed: object keyed by window id
+export const structuredShapes = ['nested', 'flat', 'keyed'] as const
+
+export type StructuredShape = (typeof structuredShapes)[number]
+
+export const htmlTableColumnIds = ['window', 'favicon', 'title', 'url', 'host'] as const
+
+export type HtmlTableColumnId = (typeof htmlTableColumnIds)[number]
+
+type StructuredWindow = {
+  title: string
+  window: chrome.windows.Window
+  tabs: chrome.tabs.Tab[]
+}
+
+// data model shared by structured formats (json, yaml, etc). property selection and output shape are applied on serialization.
+type StructuredData = {
+  scopeType: ScopeType
+  windows: StructuredWindow[] // empty for tab-only scopes
+  tabs: chrome.tabs.Tab[] // all tabs, across windows
+}
+
+type StructuredOpts = {
+  properties?: TabProperty[]
+  windowProperties?: WindowProperty[]
+  shape?: StructuredShape
+}
+
+// custom format template fields, parsed once per copy, and tokens for the format's variables
+type ParsedCustomTemplate = {
+  fields: Record<TemplateFieldId, TemplateNode[]>
+  variableTokens: Token[]
+}
+
+type HtmlTable = {
+  columnIds: HtmlTableColumnId[]
+  linkTitles: boolean
+  inlineStyles: boolean
+  indentSize: number
+}
+
 export type FormatOpts = {
   [k in Exclude<BuiltinFormatId, BuiltinFormatWithOptsId>]?: undefined
 } & {
@@ -60,15 +195,7 @@ const builtinFormats = [
       text: await getLinkPlaintextFallbackTextTransform(
         opts?.plaintextFallback as string | undefined,
       ),
-      html: {
-        windowStart: ({ seq }) => `${getNumberedWindowText(seq)}<br>\n<br>\n`,
-
-        tab: ({ tab }) => getAnchorTagHtml(tab),
-
-        tabDelimiter: '<br>\n',
-
-        windowDelimiter: '<br>\n<br>\n',
-      },
+      html: getLinesHtmlTransform(({ tab }) => getAnchorTagHtml(tab)),
     }),
     opts: {
       plaintextFallback: DEFAULT_LINK_PLAINTEXT_FALLBACK as string, // Extract<FormatId, 'link'>
@@ -77,9 +204,15 @@ const builtinFormats = [
   {
     id: 'url',
     label: () => intl.url(),
-    transforms: () => ({
+    transforms: (opts) => ({
       text: urlTextTransform,
+      html: opts?.richText // wrap
+        ? getLinesHtmlTransform(({ tab: { url } }) => getAnchorHtml(url!, url!))
+        : undefined,
     }),
+    opts: {
+      richText: false as boolean,
+    },
   },
   {
     id: 'titleUrl1Line',
@@ -95,16 +228,22 @@ const builtinFormats = [
 
         windowDelimiter: '\n\n',
       },
+      html: opts?.richText
+        ? getLinesHtmlTransform(({ tab: { title, url } }) =>
+            getTitleUrlHtml(url!, title, encodeHtml(opts?.separator ?? '')),
+          )
+        : undefined,
     }),
     opts: {
       separator: DEFAULT_TITLE_URL_1_LINE_SEPARATOR as string,
+      richText: false as boolean,
     },
   },
   {
     id: 'titleUrl2Line',
     label: () => sentenceCase(intl.conjoin(intl.title(), intl.url())),
     description: () => sentenceCase(intl.titleUrl2LineDescription()),
-    transforms: () => ({
+    transforms: (opts) => ({
       text: {
         windowStart: ({ seq }) => `${getNumberedWindowText(seq)}\n\n`,
 
@@ -114,12 +253,21 @@ const builtinFormats = [
 
         windowDelimiter: '\n\n',
       },
+      html: opts?.richText
+        ? getLinesHtmlTransform(
+            ({ tab: { title, url } }) => getTitleUrlHtml(url!, title, '<br>\n'),
+            '<br>\n<br>\n',
+          )
+        : undefined,
     }),
+    opts: {
+      richText: false as boolean,
+    },
   },
   {
     id: 'title',
     label: () => sentenceCase(intl.title()),
-    transforms: () => ({
+    transforms: (opts) => ({
       text: {
         windowStart: ({ seq }) => `${getNumberedWindowText(seq)}\n\n`,
 
@@ -129,42 +277,87 @@ const builtinFormats = [
 
         windowDelimiter: '\n\n',
       },
+      html: opts?.richText // wrap
+        ? getLinesHtmlTransform(({ tab }) => getAnchorTagHtml(tab))
+        : undefined,
     }),
+    opts: {
+      richText: false as boolean,
+    },
   },
   {
     id: 'markdown',
     label: () => 'Markdown',
-    transforms: () => ({
-      // todo: make special char escaping more robust across popular markdown renderers (github, etc); https://stackoverflow.com/questions/13824669/how-do-you-write-a-link-containing-a-closing-bracket-in-markdown-syntax
-      text: {
-        windowStart: ({ seq }) => `## ${getNumberedWindowText(seq)}\n\n`,
+    transforms: (opts) => {
+      const flavor = opts?.flavor ?? DEFAULT_MARKDOWN_FLAVOR
+      const listStyle = opts?.listStyle ?? DEFAULT_MARKDOWN_LIST_STYLE
+      const headingLevel = opts?.headingLevel ?? DEFAULT_MARKDOWN_HEADING_LEVEL
+      const referenceLinks = opts?.linkStyle === 'reference' && flavor !== 'slack' // slack mrkdwn does not support reference-style links
 
-        tab: ({ tab: { title, url } }) =>
-          `[${
-            // wrap
-            (title || url!) // wrap
-              .replace(/\[/g, '\\[')
-              .replace(/\]/g, '\\]')
-          }](${
-            // wrap
-            url! // wrap
-              .replace(/\(/g, '\\(')
-              .replace(/\)/g, '\\)')
-          })`,
+      // reference definitions are collected while transforming tabs and rendered at the end. reset on `start` since transforms may be applied more than once.
+      let linkReferences: string[] = []
 
-        tabDelimiter: '\n\n',
+      return {
+        text: {
+          start: () => {
+            linkReferences = []
+            return ''
+          },
 
-        windowDelimiter: '\n\n',
-      },
-    }),
-    // todo: potential opt: markdown flavor
-    // todo: potential opt: window header level (h1, h2, etc)
+          windowStart: ({ seq }) =>
+            `${getMarkdownHeading(getNumberedWindowText(seq), headingLevel, flavor)}\n\n`,
+
+          // group headings are nested under window headings. list items need a blank line before a heading and after a list.
+          groupStart: ({ group, windowSeq, isFirst }) =>
+            `${isFirst || listStyle === 'none' ? '' : '\n'}${getMarkdownHeading(
+              getGroupText(group),
+              windowSeq ? headingLevel + 1 : headingLevel,
+              flavor,
+            )}\n\n`,
+
+          tab: ({ tab: { title, url }, globalSeq, windowTabSeq }) => {
+            const marker = getMarkdownListMarker(listStyle, windowTabSeq ?? globalSeq, flavor)
+
+            if (referenceLinks) {
+              linkReferences.push(`[${globalSeq}]: ${escapeMarkdownUrl(url!, flavor)}`)
+              return `${marker}[${escapeMarkdownText(title || url!, flavor)}][${globalSeq}]`
+            }
+
+            return `${marker}${getMarkdownLink(title || url!, url!, flavor)}`
+          },
+
+          tabDelimiter: listStyle === 'none' ? '\n\n' : '\n',
+
+          groupEnd: ({ isLast }) => (isLast || listStyle === 'none' ? '' : '\n'),
+
+          windowDelimiter: '\n\n',
+
+          end: () => (linkReferences.length ? `\n\n${linkReferences.join('\n')}` : ''),
+        },
+        html: opts?.richText // wrap
+          ? getMarkdownHtmlTransform(listStyle, headingLevel)
+          : undefined,
+      }
+    },
+    opts: {
+      flavor: DEFAULT_MARKDOWN_FLAVOR,
+      listStyle: DEFAULT_MARKDOWN_LIST_STYLE,
+      headingLevel: DEFAULT_MARKDOWN_HEADING_LEVEL,
+      linkStyle: 'inline',
+      richText: false,
+    } as {
+      flavor: MarkdownFlavor
+      listStyle: MarkdownListStyle
+      headingLevel: number
+      linkStyle: 'inline' | 'reference'
+      richText: boolean
+    },
   },
   {
     id: 'bbcode',
     label: () => 'BBCode',
     description: () => 'Bulletin Board Code',
-    transforms: () => ({
+    transforms: (opts) => ({
       // todo: need to escape embedded bracket chars in url and title or are bbcode interpreters generally smart enough to handle them?
       text: {
         windowStart: ({ seq }) => `${getNumberedWindowText(seq)}\n\n`,
@@ -178,96 +371,158 @@ const builtinFormats = [
 
         windowDelimiter: '\n\n',
       },
+      html: opts?.richText // wrap
+        ? getLinesHtmlTransform(({ tab }) => getAnchorTagHtml(tab))
+        : undefined,
+    }),
+    opts: {
+      richText: false as boolean,
+    },
+  },
+  {
+    id: 'org',
+    label: () => 'Org-mode',
+    description: () => 'Emacs Org-mode links',
+    transforms: () => ({
+      text: getMarkupTextTransform('org'),
+    }),
+  },
+  {
+    id: 'asciidoc',
+    label: () => 'AsciiDoc',
+    transforms: () => ({
+      text: getMarkupTextTransform('asciidoc'),
+    }),
+  },
+  {
+    id: 'rst',
+    label: () => 'reStructuredText',
+    transforms: () => ({
+      text: getMarkupTextTransform('rst'),
+    }),
+  },
+  {
+    id: 'mediawiki',
+    label: () => 'MediaWiki',
+    description: () => 'Wikipedia and other MediaWiki sites',
+    transforms: () => ({
+      text: getMarkupTextTransform('mediawiki'),
+    }),
+  },
+  {
+    id: 'jira',
+    label: () => 'Jira',
+    description: () => 'Jira and Confluence wiki markup',
+    transforms: () => ({
+      text: getMarkupTextTransform('jira'),
+    }),
+  },
+  {
+    id: 'textile',
+    label: () => 'Textile',
+    transforms: () => ({
+      text: getMarkupTextTransform('textile'),
     }),
   },
   {
     id: 'csv',
     label: () => 'CSV',
     description: () => sentenceCase(intl.csvDescription()),
-    transforms: () => ({
-      text: {
-        start: ({ scopeType, tabCount }) =>
-          tabCount ? `${scopeType === 'window' ? 'Window,' : ''}Title,URL\n` : '',
-
-        tab: ({ tab: { title, url }, windowSeq }) =>
-          stringifyCSVRow(
-            [
-              windowSeq ? getNumberedWindowText(windowSeq) : undefined, // no windowSeq means scopeType is 'tab'; `undefined` gets absorbed
-              title || null,
-              url,
-            ].filter((item) => item !== undefined),
-          ),
+    transforms: (opts) => {
+      const columnIds: CsvColumnId[] = opts?.columns?.length ? opts.columns : DEFAULT_CSV_COLUMNS
+      const includeHeader = opts?.includeHeader ?? true
 
-        tabDelimiter: '\n',
+      const csvOpts = {
+        delimiter: opts?.delimiter,
+        quoting: opts?.quoting,
+      }
 
-        windowDelimiter: '\n',
-      },
-    }),
-    // todo: potential opt: properties
-    // todo: potential opt: include header
+      // the window column only applies when copying by window
+      const getColumnIds = (isWindowScope: boolean) =>
+        isWindowScope ? columnIds : columnIds.filter((id) => id !== 'window')
+
+      return {
+        text: {
+          start: ({ scopeType, tabCount }) =>
+            tabCount && includeHeader
+              ? `${stringifyCSVRow(
+                  getColumnIds(scopeType === 'window').map((id) => csvColumns[id].header),
+                  csvOpts,
+                )}\n`
+              : '',
+
+          tab: ({ tab, windowSeq }) =>
+            stringifyCSVRow(
+              getColumnIds(!!windowSeq).map((id) => csvColumns[id].value(tab, windowSeq)),
+              csvOpts,
+            ),
+
+          tabDelimiter: '\n',
+
+          windowDelimiter: '\n',
+        },
+        // spreadsheet apps paste html tables into cells
+        html: opts?.richText
+          ? {
+              start: ({ scopeType, tabCount }) =>
+                tabCount
+                  ? `<table>\n${
+                      includeHeader
+                        ? `<tr>${getColumnIds(scopeType === 'window')
+                            .map((id) => `<th>${encodeHtml(csvColumns[id].header)}</th>`)
+                            .join('')}</tr>\n`
+                        : ''
+                    }`
+                  : '',
+
+              tab: ({ tab, windowSeq }) =>
+                `<tr>${getColumnIds(!!windowSeq)
+                  .map((id) => `<td>${getCsvCellHtml(id, tab, windowSeq)}</td>`)
+                  .join('')}</tr>`,
+
+              tabDelimiter: '\n',
+
+              windowDelimiter: '\n',
+
+              end: ({ tabCount }) => (tabCount ? '\n</table>' : ''),
+            }
+          : undefined,
+      }
+    },
+    opts: {
+      columns: DEFAULT_CSV_COLUMNS,
+      includeHeader: true,
+      delimiter: ',',
+      quoting: 'minimal',
+      richText: false,
+    } as {
+      columns: CsvColumnId[]
+      includeHeader: boolean
+      delimiter: CSVDelimiter
+      quoting: CSVQuoting
+      richText: boolean
+    },
   },
   {
     id: 'json',
     label: () => 'JSON',
     description: () => 'JavaScript Object Notation',
     transforms: (opts) => {
-      const newline = opts?.pretty ? '\n' : ''
-
       const indentSize = opts?.pretty // wrap
         ? parseIndent(opts?.indent) || DEFAULT_INDENT_SIZE
         : 0
 
-      const noProperties = !opts?.properties?.length
+      const getText = () =>
+        getStructuredTextTransform((data) =>
+          serializeJson(getStructuredValue(data, opts), indentSize),
+        )
 
+      // each representation gets its own text transform since structured text transforms are stateful
       return {
-        text: {
-          start: () => `[`,
-
-          windowStart: ({ seq }) =>
-            `${newline}${indent(
-              JSON.stringify(
-                {
-                  title: getNumberedWindowText(seq),
-                  tabs: [], // .replace below opens up this array
-                },
-                undefined,
-                indentSize,
-              ).replace(/\[\][\s\n]*\}$/, '['),
-              indentSize,
-            )}`,
-
-          tab: ({ tab: { title, url, favIconUrl }, windowSeq }) =>
-            `${newline}${indent(
-              JSON.stringify(
-                {
-                  ...(title && (noProperties || opts.properties.includes('title'))
-                    ? { title }
-                    : null),
-
-                  ...(url && (noProperties || opts.properties.includes('url')) // wrap
-                    ? { url }
-                    : null),
-
-                  ...(favIconUrl && (noProperties || opts.properties.includes('favIconUrl'))
-                    ? { favIconUrl }
-                    : null),
-                },
-                undefined,
-                indentSize,
-              ),
-              windowSeq ? indentSize * 3 : indentSize,
-            )}`,
-
-          tabDelimiter: ',',
-
-          windowEnd: () =>
-            `${newline}${indent(']', indentSize * 2)}${newline}${indent('}', indentSize)}`,
-
-          windowDelimiter: ',',
-
-          end: ({ tabCount }) => `${tabCount ? newline : ''}]`,
-        },
-        // todo: html representation for syntax-highlighted JSON?
+        text: getText(),
+        html: opts?.richText // wrap
+          ? getHighlightedJsonHtmlTransform(getText())
+          : undefined,
       }
     },
     opts: {
@@ -276,15 +531,76 @@ const builtinFormats = [
         'title',
         'url',
       ],
+      windowProperties: [],
+      shape: 'nested',
       pretty: true,
       indent: `${DEFAULT_INDENT_SIZE}`,
+      richText: false,
     } as {
-      properties: (keyof Pick<chrome.tabs.Tab, 'title' | 'url' | 'favIconUrl'>)[]
+      properties: TabProperty[]
+      windowProperties: WindowProperty[]
+      shape: StructuredShape
       pretty: boolean
       indent: string
+      richText: boolean
     },
     isInvalid: (opts) => !!opts.pretty && !parseIndent(opts.indent),
   },
+  {
+    id: 'ndjson',
+    label: () => 'NDJSON',
+    description: () => sentenceCase(intl.ndjsonDescription()),
+    transforms: (opts) => ({
+      text: getStructuredTextTransform((data) =>
+        serializeNdjson(getFlatStructuredValue(data, opts)),
+      ),
+    }),
+    opts: {
+      properties: DEFAULT_STRUCTURED_TAB_PROPERTIES,
+    },
+  },
+  {
+    id: 'yaml',
+    label: () => 'YAML',
+    transforms: (opts) => ({
+      text: getStructuredTextTransform((data) =>
+        serializeYaml(getStructuredValue(data, opts), DEFAULT_INDENT_SIZE),
+      ),
+    }),
+    opts: {
+      properties: DEFAULT_STRUCTURED_TAB_PROPERTIES,
+    },
+  },
+  {
+    id: 'xml',
+    label: () => 'XML',
+    transforms: (opts) => ({
+      text: getStructuredTextTransform((data) =>
+        serializeXml(
+          getStructuredRootName(data),
+          getStructuredValue(data, opts),
+          DEFAULT_INDENT_SIZE,
+        ),
+      ),
+    }),
+    opts: {
+      properties: DEFAULT_STRUCTURED_TAB_PROPERTIES,
+    },
+  },
+  {
+    id: 'toml',
+    label: () => 'TOML',
+    transforms: (opts) => ({
+      text: getStructuredTextTransform((data) =>
+        serializeToml({
+          [getStructuredRootName(data)]: getStructuredValue(data, opts),
+        }),
+      ),
+    }),
+    opts: {
+      properties: DEFAULT_STRUCTURED_TAB_PROPERTIES,
+    },
+  },
   {
     id: 'html',
     label: () => 'HTML',
@@ -303,30 +619,161 @@ const builtinFormats = [
     // todo: potential opt: anchor tag target attribute
   },
   {
-    id: 'htmlTable',
-    label: () => sentenceCase(intl.htmlTable()),
-    transforms: (opts) => ({
+    id: 'netscapeBookmarks',
+    label: () => sentenceCase(intl.netscapeBookmarks()),
+    description: () => sentenceCase(intl.netscapeBookmarksDescription()),
+    transforms: () => {
+      let addDate = 0 // seconds since epoch, set per copy
+
+      return {
+        text: {
+          start: () => {
+            addDate = Math.floor(Date.now() / 1000)
+
+            return `${list(
+              '<!DOCTYPE NETSCAPE-Bookmark-file-1>',
+              '<META HTTP-EQUIV="Content-Type" CONTENT="text/html; charset=UTF-8">',
+              '<TITLE>Bookmarks</TITLE>',
+              '<H1>Bookmarks</H1>',
+              '<DL><p>',
+            )}\n`
+          },
+
+          windowStart: ({ seq }) =>
+            `${indent(
+              list(`<DT><H3 ADD_DATE="${addDate}">${getNumberedWindowText(seq)}</H3>`, '<DL><p>'),
+              BOOKMARK_INDENT_SIZE,
+            )}\n`,
+
+          // tab groups become nested folders
+          groupStart: ({ group, windowSeq }) =>
+            `${indent(
+              list(
+                `<DT><H3 ADD_DATE="${addDate}">${encodeHtml(getGroupText(group))}</H3>`,
+                '<DL><p>',
+              ),
+              windowSeq ? BOOKMARK_INDENT_SIZE * 2 : BOOKMARK_INDENT_SIZE,
+            )}\n`,
+
+          tab: ({ tab, windowSeq, group }) =>
+            indent(
+              getNetscapeBookmarkHtml(tab, addDate),
+              BOOKMARK_INDENT_SIZE * (1 + (windowSeq ? 1 : 0) + (group ? 1 : 0)),
+            ),
+
+          tabDelimiter: '\n',
+
+          groupEnd: ({ windowSeq }) =>
+            `\n${indent('</DL><p>', windowSeq ? BOOKMARK_INDENT_SIZE * 2 : BOOKMARK_INDENT_SIZE)}`,
+
+          windowEnd: () => `\n${indent('</DL><p>', BOOKMARK_INDENT_SIZE)}`,
+
+          windowDelimiter: '\n',
+
+          end: ({ tabCount }) => `${tabCount ? '\n' : ''}</DL><p>`,
+        },
+      }
+    },
+  },
+  {
+    id: 'opml',
+    label: () => 'OPML',
+    description: () => sentenceCase(intl.opmlDescription()),
+    transforms: () => ({
       text: {
-        start: ({ scopeType, tabCount }) =>
-          tabCount
-            ? `<table>\n${
-                opts?.includeHeader
-                  ? `${indent(getHtmlTableHeaderHtml(scopeType, DEFAULT_INDENT_SIZE), DEFAULT_INDENT_SIZE)}\n`
-                  : ''
-              }${indent('<tbody>', DEFAULT_INDENT_SIZE)}\n`
-            : '',
-
-        tab: ({ tab: { title, url }, windowSeq }) =>
-          `${indent(getHtmlTableTabHtml(title, url, windowSeq, DEFAULT_INDENT_SIZE), DEFAULT_INDENT_SIZE * 2)}\n`,
+        start: ({ formatName }) =>
+          list(
+            '<?xml version="1.0" encoding="UTF-8"?>',
+            '<opml version="2.0">',
+            indent(
+              wrap(
+                list(
+                  `<title>${encodeHtml(formatName)}</title>`,
+                  `<dateCreated>${new Date().toUTCString()}</dateCreated>`, // rfc 822 date-time
+                ),
+                'head',
+                DEFAULT_INDENT_SIZE,
+              ),
+              DEFAULT_INDENT_SIZE,
+            ),
+            `${indent('<body>', DEFAULT_INDENT_SIZE)}\n`,
+          ),
+
+        windowStart: ({ seq }) =>
+          `${indent(`<outline text="${getNumberedWindowText(seq)}">`, DEFAULT_INDENT_SIZE * 2)}\n`,
+
+        // tab groups become nested outlines
+        groupStart: ({ group, windowSeq }) =>
+          `${indent(
+            `<outline text="${encodeHtml(getGroupText(group))}">`,
+            windowSeq ? DEFAULT_INDENT_SIZE * 3 : DEFAULT_INDENT_SIZE * 2,
+          )}\n`,
+
+        tab: ({ tab: { title, url }, windowSeq, group }) =>
+          indent(
+            `<outline text="${encodeHtml(title || url!)}" type="link" url="${encodeHtml(url!)}"/>`,
+            DEFAULT_INDENT_SIZE * (2 + (windowSeq ? 1 : 0) + (group ? 1 : 0)),
+          ),
+
+        tabDelimiter: '\n',
+
+        groupEnd: ({ windowSeq }) =>
+          `\n${indent('</outline>', windowSeq ? DEFAULT_INDENT_SIZE * 3 : DEFAULT_INDENT_SIZE * 2)}`,
+
+        windowEnd: () => `\n${indent('</outline>', DEFAULT_INDENT_SIZE * 2)}`,
+
+        windowDelimiter: '\n',
 
         end: ({ tabCount }) =>
-          tabCount ? `${indent('</tbody>', DEFAULT_INDENT_SIZE)}\n</table>` : '',
+          `${tabCount ? '\n' : ''}${list(indent('</body>', DEFAULT_INDENT_SIZE), '</opml>')}`,
       },
     }),
-    // todo: potential opt: indent size
+  },
+  {
+    id: 'htmlTable',
+    label: () => sentenceCase(intl.htmlTable()),
+    transforms: (opts) => {
+      const indentSize = parseIndent(opts?.indent ?? '') || DEFAULT_INDENT_SIZE
+
+      const table: HtmlTable = {
+        columnIds: opts?.columns?.length ? opts.columns : DEFAULT_HTML_TABLE_COLUMNS,
+        linkTitles: opts?.linkTitles ?? false,
+        inlineStyles: opts?.inlineStyles ?? false,
+        indentSize,
+      }
+
+      return {
+        text: {
+          start: ({ scopeType, tabCount }) =>
+            tabCount
+              ? `${getHtmlTableTagHtml('table', table)}\n${
+                  opts?.includeHeader
+                    ? `${indent(getHtmlTableHeaderHtml(scopeType, table), indentSize)}\n`
+                    : ''
+                }${indent('<tbody>', indentSize)}\n`
+              : '',
+
+          tab: ({ tab, windowSeq }) =>
+            `${indent(getHtmlTableTabHtml(tab, windowSeq, table), indentSize * 2)}\n`,
+
+          end: ({ tabCount }) => (tabCount ? `${indent('</tbody>', indentSize)}\n</table>` : ''),
+        },
+      }
+    },
     opts: {
-      includeHeader: false as boolean,
+      includeHeader: false,
+      columns: DEFAULT_HTML_TABLE_COLUMNS,
+      linkTitles: false,
+      indent: `${DEFAULT_INDENT_SIZE}`,
+      inlineStyles: false,
+    } as {
+      includeHeader: boolean
+      columns: HtmlTableColumnId[]
+      linkTitles: boolean
+      indent: string
+      inlineStyles: boolean
     },
+    isInvalid: (opts) => !parseIndent(opts.indent),
   },
 ] as const satisfies Format[]
 
@@ -334,136 +781,28 @@ export const customFormat = {
   label: (opts) => opts?.name ?? DEFAULT_CUSTOM_FORMAT_NAME,
   description: () => sentenceCase(intl.customDescription()),
   transforms: (opts) => {
-    const now = new Date()
     const template = opts?.template as Record<TemplateFieldId, string> | undefined
 
-    // for html representation, field templates are pre-encoded. additionally, each token value generator encodes portions of its output as needed.
-    // - code assumption: tokens, token aliases, and token delimiters do not contain chars encoded by `encodeHtml()`
-    const htmlEncodedTemplate = Object.fromEntries(
-      Object.entries(template ?? {}).map(
-        ([
-          // wrap
-          fieldId,
-          fieldTemplate,
-        ]) => [
-          // wrap
-          fieldId,
-          encodeHtml(fieldTemplate),
-        ],
-      ),
-    ) as Record<TemplateFieldId, string>
-
-    return {
-      text: {
-        start: ({ formatName, windowCount, tabCount }) =>
-          interpolate('start', template, {
-            now,
-            formatName,
-            windowCount,
-            tabCount,
-            representation: 'text',
-          }),
-
-        windowStart: ({ seq, windowCount, windowTabCount }) =>
-          interpolate('windowStart', template, {
-            windowSeq: seq,
-            windowCount,
-            windowTabCount,
-            representation: 'text',
-          }),
-
-        tab: ({ tab, globalSeq, windowTabSeq, windowSeq, windowCount }) =>
-          interpolate('tab', template, {
-            now,
-            tab,
-            parsedUrl: new URL(tab.url!),
-            tabSeq: globalSeq,
-            windowTabSeq,
-            windowSeq,
-            windowCount,
-            representation: 'text',
-          }),
-
-        tabDelimiter: interpolate('tabDelimiter', template, {
-          representation: 'text',
-        }),
-
-        windowEnd: ({ seq, windowCount, windowTabCount }) =>
-          interpolate('windowEnd', template, {
-            windowSeq: seq,
-            windowCount,
-            windowTabCount,
-            representation: 'text',
-          }),
-
-        windowDelimiter: interpolate('windowDelimiter', template, {
-          representation: 'text',
-        }),
-
-        end: ({ formatName, windowCount, tabCount }) =>
-          interpolate('end', template, {
-            now,
-            formatName,
-            windowCount,
-            tabCount,
-            representation: 'text',
-          }),
-      },
-      html: {
-        start: ({ formatName, windowCount, tabCount }) =>
-          interpolate('start', htmlEncodedTemplate, {
-            now,
-            formatName,
-            windowCount,
-            tabCount,
-            representation: 'html',
-          }),
-
-        windowStart: ({ seq, windowCount, windowTabCount }) =>
-          interpolate('windowStart', htmlEncodedTemplate, {
-            windowSeq: seq,
-            windowCount,
-            windowTabCount,
-            representation: 'html',
-          }),
-
-        tab: ({ tab, globalSeq, windowTabSeq, windowSeq, windowCount }) =>
-          interpolate('tab', htmlEncodedTemplate, {
-            now,
-            tab,
-            parsedUrl: new URL(tab.url!),
-            tabSeq: globalSeq,
-            windowTabSeq,
-            windowSeq,
-            windowCount,
-            representation: 'html',
-          }),
-
-        tabDelimiter: interpolate('tabDelimiter', htmlEncodedTemplate, {
-          representation: 'html',
-        }),
+    // invalid locales and time zones fall back to the browser's
+    const now: LocalizedDate = {
+      date: new Date(),
+      locale: opts?.locale && isValidLocale(opts.locale) ? opts.locale : undefined,
+      timeZone: opts?.timeZone && isValidTimeZone(opts.timeZone) ? opts.timeZone : undefined,
+    }
 
-        windowEnd: ({ seq, windowCount, windowTabCount }) =>
-          interpolate('windowEnd', htmlEncodedTemplate, {
-            windowSeq: seq,
-            windowCount,
-            windowTabCount,
-            representation: 'html',
-          }),
+    const escapeAs = opts?.escapeAs && isEscapeMode(opts.escapeAs) ? opts.escapeAs : 'none'
 
-        windowDelimiter: interpolate('windowDelimiter', htmlEncodedTemplate, {
-          representation: 'html',
-        }),
+    // optimization: parse field templates once per copy
+    const parsedTemplate = template && {
+      fields: parseTemplateFields(template),
+      variableTokens: getVariableTokens(opts?.variables ?? []),
+    }
 
-        end: ({ formatName, windowCount, tabCount }) =>
-          interpolate('end', htmlEncodedTemplate, {
-            now,
-            formatName,
-            windowCount,
-            tabCount,
-            representation: 'html',
-          }),
-      },
+    return {
+      text: getCustomTextTransform(parsedTemplate, now, escapeAs, 'text'),
+      html: getCustomTextTransform(parsedTemplate, now, escapeAs, 'html'),
+      usesPageMetadata:
+        !!parsedTemplate && usesPageTokens(getFieldTokens('tab'), parsedTemplate.fields.tab ?? []),
     }
   },
   opts: {
@@ -471,17 +810,32 @@ export const customFormat = {
     template: {
       start: '[date+time] - [tcount] tabs[n][n]',
       windowStart: 'Window [w#] ([wtcount] tabs)[n][n]',
+      groupStart: '',
       tab: '[wt#]) [title][n][n]URL:  [url][n]Host: [host]',
       tabDelimiter: '[n][n]',
+      groupEnd: '',
       windowEnd: '',
       windowDelimiter: '[n][n]',
       end: '',
     },
+    locale: '',
+    timeZone: '',
+    escapeAs: 'none',
+    variables: [],
   } as {
     name: string
     template: Record<TemplateFieldId, string>
+    locale?: string // absent in formats created by previous versions
+    timeZone?: string
+    escapeAs?: EscapeMode
+    variables?: TemplateVariable[]
   },
-  isInvalid: (opts) => !opts.name?.trim(),
+  isInvalid: (opts) =>
+    !opts.name?.trim() ||
+    !!(opts.locale && !isValidLocale(opts.locale)) ||
+    !!(opts.timeZone && !isValidTimeZone(opts.timeZone)) ||
+    hasVariableErrors(opts.variables ?? []) ||
+    hasTemplateErrors(opts.template ?? {}, opts.variables),
 } as const satisfies Omit<Format, 'id'>
 
 // todo: we want T to be inferred from the opts prop object literal so we can get type checking on opts function args, but TS does not yet support type argument inference in generic types
@@ -502,9 +856,10 @@ export type Transforms = {
   text: TextTransform
   html?: TextTransform
   nxs?: NxsTransform
+  usesPageMetadata?: boolean // whether tab transforms use page metadata, which is resolved while transforming
 }
 
-type TextTransform = {
+export type TextTransform = {
   start?: ({
     formatName,
     windowCount,
@@ -529,22 +884,58 @@ type TextTransform = {
     windowTabCount: number
   }) => string
 
+  // groups wrap each run of consecutive tabs in the same tab group. tab delimiters are placed outside of groups.
+  groupStart?: ({
+    group,
+    seq,
+    groupTabCount,
+    windowSeq,
+    isFirst,
+    isLast,
+  }: {
+    group: chrome.tabGroups.TabGroup
+    seq: number // sequence across all groups
+    groupTabCount: number
+    windowSeq?: number // sequence of the parent window; missing for tab-only scopes
+    isFirst: boolean // group starts its window or, for tab-only scopes, the tab list
+    isLast: boolean // group ends its window or, for tab-only scopes, the tab list
+  }) => string
+
   tab?: ({
     tab,
     globalSeq,
     windowTabSeq,
     windowSeq,
     windowCount,
+    group,
   }: {
     tab: chrome.tabs.Tab
     globalSeq: number // sequence across all tabs
     windowTabSeq?: number // sequence within window; missing for tab-only scopes
     windowSeq?: number // sequence of the parent window; missing for tab-only scopes
     windowCount?: number // missing for tab-only scopes
+    group?: chrome.tabGroups.TabGroup // missing for ungrouped tabs
+    page?: PageMetadata // missing unless the format uses page metadata and the page is accessible
   }) => string
 
   tabDelimiter?: string
 
+  groupEnd?: ({
+    group,
+    seq,
+    groupTabCount,
+    windowSeq,
+    isFirst,
+    isLast,
+  }: {
+    group: chrome.tabGroups.TabGroup
+    seq: number
+    groupTabCount: number
+    windowSeq?: number
+    isFirst: boolean
+    isLast: boolean
+  }) => string
+
   windowEnd?: ({
     window,
     seq,
@@ -616,6 +1007,25 @@ const urlTextTransform: TextTransform = {
   windowDelimiter: '\n\n',
 }
 
+function getMarkupTextTransform(markup: Markup): TextTransform {
+  return {
+    windowStart: ({ seq }) => `${getMarkupHeading(markup, getNumberedWindowText(seq))}\n\n`,
+
+    // group headings are nested under window headings
+    groupStart: ({ group, windowSeq, isFirst }) =>
+      `${isFirst ? '' : '\n'}${getMarkupHeading(markup, getGroupText(group), windowSeq ? 2 : 1)}\n\n`,
+
+    tab: ({ tab: { title, url } }) =>
+      `${getMarkupListMarker(markup)}${getMarkupLink(markup, title || url!, url!)}`,
+
+    tabDelimiter: '\n',
+
+    groupEnd: ({ isLast }) => (isLast ? '' : '\n'),
+
+    windowDelimiter: '\n\n',
+  }
+}
+
 function getTitleUrlText(
   url: string,
   title?: string,
@@ -624,47 +1034,488 @@ function getTitleUrlText(
   return `${title || '(untitled)'}${separator}${url}`
 }
 
+const csvColumns: {
+  [k in CsvColumnId]: {
+    header: string
+    value: (tab: chrome.tabs.Tab, windowSeq?: number) => FieldValue
+  }
+} = {
+  window: {
+    header: 'Window',
+    value: (_, windowSeq) => (windowSeq ? getNumberedWindowText(windowSeq) : null),
+  },
+  index: {
+    header: 'Index',
+    value: ({ index }) => index,
+  },
+  title: {
+    header: 'Title',
+    value: ({ title }) => title || null,
+  },
+  url: {
+    header: 'URL',
+    value: ({ url }) => url!,
+  },
+  host: {
+    header: 'Host',
+    value: ({ url }) => getUrlHost(url!) || null,
+  },
+  favIconUrl: {
+    header: 'Favicon URL',
+    value: ({ favIconUrl }) => favIconUrl || null,
+  },
+  pinned: {
+    header: 'Pinned',
+    value: ({ pinned }) => `${pinned}`,
+  },
+  groupId: {
+    header: 'Group ID',
+    // -1 is chrome.tabGroups.TAB_GROUP_ID_NONE, which is unavailable without the tabGroups permission
+    value: ({ groupId }) => (groupId === undefined || groupId === -1 ? null : groupId),
+  },
+  lastAccessed: {
+    header: 'Last accessed',
+    value: ({ lastAccessed }) => (lastAccessed ? new Date(lastAccessed).toISOString() : null),
+  },
+}
+
+export function getCsvColumnHeader(id: CsvColumnId) {
+  return csvColumns[id].header
+}
+
+function getCsvCellHtml(id: CsvColumnId, tab: chrome.tabs.Tab, windowSeq?: number) {
+  const value = csvColumns[id].value(tab, windowSeq)
+
+  if (value === null) return ''
+
+  return id === 'url' // wrap
+    ? getAnchorHtml(`${value}`, `${value}`)
+    : encodeHtml(`${value}`)
+}
+
+function getUrlHost(url: string) {
+  try {
+    return new URL(url).host
+  } catch {
+    return ''
+  }
+}
+
+// the nxs representation is format-agnostic, so it is generated for every copy unless a format specifies its own nxs transform
+export const nxsTransform: NxsTransform = (wins) => ({
+  type: 'windows',
+  value: {
+    windows: wins.map(getNxsWindow),
+  },
+})
+
+function getNxsWindow({
+  id = chrome.windows.WINDOW_ID_NONE,
+  type,
+  state,
+  incognito,
+  top,
+  left,
+  width,
+  height,
+  tabs = [],
+}: chrome.windows.Window): nxs.client.Window {
+  return omitUndefined({
+    id,
+    type,
+    state,
+    incognito,
+    top,
+    left,
+    width,
+    height,
+    tabs: tabs.map(getNxsTab),
+  })
+}
+
+function getNxsTab({
+  id = chrome.tabs.TAB_ID_NONE,
+  url,
+  pendingUrl,
+  favIconUrl,
+  title,
+  groupId,
+  active,
+  pinned,
+}: chrome.tabs.Tab): nxs.client.Tab {
+  return omitUndefined({
+    id,
+    url: url!, // app guarantees tab.url is truthy
+    pendingUrl,
+    favIconUrl: favIconUrl || undefined,
+    title: title || undefined,
+    groupId: groupId === -1 ? undefined : groupId, // ungrouped tabs have groupId -1 (`chrome.tabGroups.TAB_GROUP_ID_NONE` is unavailable without the tabGroups perm)
+    active,
+    pinned,
+  })
+}
+
+// strip undefined props so that serialized nxs content is normalized
+function omitUndefined<T extends Record<string, unknown>>(obj: T) {
+  return Object.fromEntries(Object.entries(obj).filter(([, val]) => val !== undefined)) as T
+}
+
 export function getAnchorTagHtml(tab: chrome.tabs.Tab) {
   return tab.url // wrap
-    ? `<a href="${tab.url}">${encodeHtml(tab.title || tab.url)}</a>`
+    ? getAnchorHtml(tab.url, tab.title || tab.url)
     : ''
 }
 
+function getAnchorHtml(url: string, text: string) {
+  return `<a href="${encodeHtml(url)}">${encodeHtml(text)}</a>`
+}
+
+function getTitleUrlHtml(url: string, title: string | undefined, separatorHtml: string) {
+  return `${encodeHtml(title || '(untitled)')}${separatorHtml}${getAnchorHtml(url, url)}`
+}
+
+// html representation for line-based formats
+function getLinesHtmlTransform(
+  tab: NonNullable<TextTransform['tab']>,
+  tabDelimiter = '<br>\n',
+): TextTransform {
+  return {
+    windowStart: ({ seq }) => `${getNumberedWindowText(seq)}<br>\n<br>\n`,
+
+    tab,
+
+    tabDelimiter,
+
+    windowDelimiter: '<br>\n<br>\n',
+  }
+}
+
+// text transform for structured formats. tabs and windows are collected into a data model that is serialized at the end, which lets serializers handle nesting and delimiters.
+function getStructuredTextTransform(serialize: (data: StructuredData) => string): TextTransform {
+  let data: StructuredData = { scopeType: 'tab', windows: [], tabs: [] }
+
+  return {
+    start: ({ scopeType }) => {
+      data = { scopeType, windows: [], tabs: [] }
+      return ''
+    },
+
+    windowStart: ({ window, seq }) => {
+      data.windows.push({
+        title: getNumberedWindowText(seq),
+        window,
+        tabs: [],
+      })
+
+      return ''
+    },
+
+    tab: ({ tab, windowSeq }) => {
+      if (windowSeq) {
+        data.windows[data.windows.length - 1]?.tabs.push(tab)
+      }
+
+      data.tabs.push(tab)
+
+      return ''
+    },
+
+    end: () => serialize(data),
+  }
+}
+
+function getStructuredValue(data: StructuredData, opts?: StructuredOpts): SerializableValue {
+  switch (opts?.shape) {
+    case 'flat':
+      return getFlatStructuredValue(data, opts)
+
+    case 'keyed':
+      return getKeyedStructuredValue(data, opts)
+
+    default:
+      return data.scopeType === 'window'
+        ? data.windows.map((win) => getStructuredWindow(win, opts))
+        : data.tabs.map((tab) => getStructuredTab(tab, opts))
+  }
+}
+
+function getFlatStructuredValue(data: StructuredData, opts?: StructuredOpts) {
+  return data.tabs.map((tab) => ({
+    windowId: tab.windowId,
+    ...getStructuredTab(tab, opts),
+  }))
+}
+
+// tab-only scopes lack window details, so their tabs are grouped by window id
+function getKeyedStructuredValue(data: StructuredData, opts?: StructuredOpts) {
+  if (data.scopeType === 'window') {
+    return Object.fromEntries(
+      data.windows.map((win) => [`${win.window.id}`, getStructuredWindow(win, opts)]),
+    )
+  }
+
+  const value: { [windowId: string]: { tabs: SerializableValue[] } } = {}
+
+  for (const tab of data.tabs) {
+    const windowId = `${tab.windowId}`
+
+    value[windowId] ??= { tabs: [] }
+    value[windowId].tabs.push(getStructuredTab(tab, opts))
+  }
+
+  return value
+}
+
+function getStructuredWindow({ title, window, tabs }: StructuredWindow, opts?: StructuredOpts) {
+  return {
+    title,
+    ...pickProperties(window, windowProperties, opts?.windowProperties ?? []),
+    tabs: tabs.map((tab) => getStructuredTab(tab, opts)),
+  }
+}
+
+function getStructuredTab(tab: chrome.tabs.Tab, opts?: StructuredOpts) {
+  return pickProperties(
+    {
+      ...tab,
+      // -1 is chrome.tabGroups.TAB_GROUP_ID_NONE, which is unavailable without the tabGroups permission
+      groupId: tab.groupId === -1 ? undefined : tab.groupId,
+    },
+    tabProperties,
+    opts?.properties?.length ? opts.properties : DEFAULT_STRUCTURED_TAB_PROPERTIES,
+  )
+}
+
+// properties are ordered per `allProperties` regardless of selection order. missing or empty property values are omitted.
+function pickProperties<T extends object, P extends keyof T & string>(
+  obj: T,
+  allProperties: readonly P[],
+  selectedProperties: readonly P[],
+) {
+  return Object.fromEntries(
+    allProperties
+      .filter((prop) => selectedProperties.includes(prop))
+      .map((prop) => [prop, obj[prop] as SerializableValue] as const)
+      .filter(([, value]) => value !== undefined && value !== ''),
+  )
+}
+
+function getStructuredRootName({ scopeType }: StructuredData) {
+  return scopeType === 'window' ? 'windows' : 'tabs'
+}
+
+// html representation of rendered markdown
+function getMarkdownHtmlTransform(
+  listStyle: MarkdownListStyle,
+  headingLevel: number,
+): TextTransform {
+  const listTag = listStyle === 'numbered' ? 'ol' : 'ul'
+
+  // lists are opened by tabs and closed before group headings and at group, window, and output ends. reset on `start` since transforms may be applied more than once.
+  let isListOpen = false
+
+  const openList = (seq: number) => {
+    if (listStyle === 'none' || isListOpen) return ''
+
+    isListOpen = true
+
+    // numbering continues across group headings
+    return `<${listTag}${listTag === 'ol' && seq > 1 ? ` start="${seq}"` : ''}>\n`
+  }
+
+  const closeList = () => {
+    if (!isListOpen) return ''
+
+    isListOpen = false
+
+    return `</${listTag}>`
+  }
+
+  const getHeadingHtml = (text: string, level: number) => {
+    const headingTag = `h${Math.min(Math.max(level, 1), 6)}`
+    return `<${headingTag}>${encodeHtml(text)}</${headingTag}>`
+  }
+
+  return {
+    start: () => {
+      isListOpen = false
+      return ''
+    },
+
+    windowStart: ({ seq }) => `${getHeadingHtml(getNumberedWindowText(seq), headingLevel)}\n`,
+
+    groupStart: ({ group, windowSeq }) => {
+      const listEnd = closeList()
+
+      return `${listEnd ? `${listEnd}\n` : ''}${getHeadingHtml(
+        getGroupText(group),
+        windowSeq ? headingLevel + 1 : headingLevel,
+      )}\n`
+    },
+
+    tab: ({ tab, globalSeq, windowTabSeq }) => {
+      const listStart = openList(windowTabSeq ?? globalSeq)
+
+      switch (listStyle) {
+        case 'none':
+          return `<p>${getAnchorTagHtml(tab)}</p>`
+
+        case 'task':
+          return `${listStart}<li><input type="checkbox" disabled> ${getAnchorTagHtml(tab)}</li>`
+
+        default:
+          return `${listStart}<li>${getAnchorTagHtml(tab)}</li>`
+      }
+    },
+
+    tabDelimiter: '\n',
+
+    groupEnd: () => getListEndHtml(closeList()),
+
+    windowEnd: () => getListEndHtml(closeList()),
+
+    windowDelimiter: '\n',
+
+    end: () => getListEndHtml(closeList()),
+  }
+}
+
+function getListEndHtml(listEnd: string) {
+  return listEnd ? `\n${listEnd}` : ''
+}
+
+// html representation of syntax-highlighted json, derived from the text representation
+// - `text` must not be shared with another representation
+function getHighlightedJsonHtmlTransform(text: TextTransform): TextTransform {
+  const highlight =
+    <T>(fn?: (arg: T) => string) =>
+    (arg: T) =>
+      highlightJson(fn?.(arg) ?? '')
+
+  return {
+    start: (arg) => `<pre>${highlight(text.start)(arg)}`,
+
+    windowStart: highlight(text.windowStart),
+
+    tab: highlight(text.tab),
+
+    tabDelimiter: highlightJson(text.tabDelimiter ?? ''),
+
+    windowEnd: highlight(text.windowEnd),
+
+    windowDelimiter: highlightJson(text.windowDelimiter ?? ''),
+
+    end: (arg) => `${highlight(text.end)(arg)}</pre>`,
+  }
+}
+
 function getNumberedWindowText(seq: number) {
   return `${sentenceCase(intl.window())} ${seq}`
 }
 
-function getHtmlTableHeaderHtml(scopeType: ScopeType, contentIndent: number) {
+// chrome shows untitled groups as a color swatch
+function getGroupText({ title, color }: chrome.tabGroups.TabGroup) {
+  return title || sentenceCase(intl.untitledGroup(color))
+}
+
+const htmlTableColumns: {
+  [k in HtmlTableColumnId]: {
+    header: string
+    cell: (tab: chrome.tabs.Tab, windowSeq: number | undefined, table: HtmlTable) => string
+  }
+} = {
+  window: {
+    header: 'Window',
+    cell: (_, windowSeq) => (windowSeq ? getNumberedWindowText(windowSeq) : ''),
+  },
+  favicon: {
+    header: 'Icon',
+    cell: ({ favIconUrl }) =>
+      favIconUrl ? `<img src="${encodeHtml(favIconUrl)}" alt="" width="16" height="16">` : '',
+  },
+  title: {
+    header: 'Title',
+    cell: ({ title, url }, _, { linkTitles }) =>
+      linkTitles && url // wrap
+        ? getAnchorHtml(url, title || url)
+        : encodeHtml(title || ''),
+  },
+  url: {
+    header: 'URL',
+    cell: ({ url }) => encodeHtml(url || ''),
+  },
+  host: {
+    header: 'Host',
+    cell: ({ url }) => encodeHtml(getUrlHost(url || '')),
+  },
+}
+
+// inline styles survive pasting into email clients, which generally ignore or strip stylesheets
+const htmlTableInlineStyles: { [tag: string]: string } = {
+  table: 'border-collapse: collapse;',
+  th: 'border: 1px solid #ccc; padding: 4px 8px; text-align: left; background-color: #f3f3f3;',
+  td: 'border: 1px solid #ccc; padding: 4px 8px; vertical-align: top;',
+}
+
+export function getHtmlTableColumnHeader(id: HtmlTableColumnId) {
+  return htmlTableColumns[id].header
+}
+
+// the window column only applies when copying by window
+function getHtmlTableColumnIds(table: HtmlTable, isWindowScope: boolean) {
+  return isWindowScope // wrap
+    ? table.columnIds
+    : table.columnIds.filter((id) => id !== 'window')
+}
+
+// favicons are emitted as ICON when they are data urls, which is all that browsers import. otherwise, they are emitted as ICON_URI, which firefox supports.
+function getNetscapeBookmarkHtml({ title, url, favIconUrl }: chrome.tabs.Tab, addDate: number) {
+  const iconAttr = favIconUrl
+    ? ` ${favIconUrl.startsWith('data:') ? 'ICON' : 'ICON_URI'}="${encodeHtml(favIconUrl)}"`
+    : ''
+
+  return `<DT><A HREF="${encodeHtml(url!)}" ADD_DATE="${addDate}"${iconAttr}>${encodeHtml(
+    title || url!,
+  )}</A>`
+}
+
+function getHtmlTableTagHtml(tag: string, { inlineStyles }: HtmlTable) {
+  return inlineStyles && htmlTableInlineStyles[tag]
+    ? `<${tag} style="${htmlTableInlineStyles[tag]}">`
+    : `<${tag}>`
+}
+
+function getHtmlTableHeaderHtml(scopeType: ScopeType, table: HtmlTable) {
   return wrap(
     wrap(
       list(
-        // wrap
-        scopeType === 'window' ? '<th>Window</th>' : null,
-        '<th>Title</th>',
-        '<th>URL</th>',
+        ...getHtmlTableColumnIds(table, scopeType === 'window').map(
+          (id) =>
+            `${getHtmlTableTagHtml('th', table)}${encodeHtml(htmlTableColumns[id].header)}</th>`,
+        ),
       ),
       'tr',
-      contentIndent,
+      table.indentSize,
     ),
     'thead',
-    contentIndent,
+    table.indentSize,
   )
 }
 
 function getHtmlTableTabHtml(
-  title: string | undefined,
-  url: string | undefined,
+  tab: chrome.tabs.Tab,
   windowSeq: number | undefined,
-  contentIndent: number,
+  table: HtmlTable,
 ) {
   return wrap(
     list(
-      windowSeq ? `<td>${getNumberedWindowText(windowSeq)}</td>` : null,
-      `<td>${title || ''}</td>`,
-      `<td>${url || ''}</td>`,
+      ...getHtmlTableColumnIds(table, !!windowSeq).map(
+        (id) =>
+          `${getHtmlTableTagHtml('td', table)}${htmlTableColumns[id].cell(tab, windowSeq, table)}</td>`,
+      ),
     ),
     'tr',
-    contentIndent,
+    table.indentSize,
   )
 }
 
@@ -687,17 +1538,117 @@ export function parseIndent(indent: string) {
 
 function interpolate(
   fieldId: TemplateFieldId,
-  template: Record<TemplateFieldId, string> | undefined,
+  template: ParsedCustomTemplate | undefined,
   sources: TokenValueSources = {},
 ) {
   if (!template) return ''
 
-  return getFieldTokens(fieldId).reduce(
-    (acc, token) => acc.replace(token.regex, token.value(sources)),
-    template[fieldId], // start with field template
+  return renderTemplate(
+    [...getFieldTokens(fieldId), ...template.variableTokens],
+    template.fields[fieldId] ?? [],
+    sources,
   )
 }
 
+function getCustomTextTransform(
+  template: ParsedCustomTemplate | undefined,
+  now: LocalizedDate,
+  escapeAs: EscapeMode,
+  representation: 'text' | 'html',
+): TextTransform {
+  return {
+    start: ({ formatName, windowCount, tabCount }) =>
+      interpolate('start', template, {
+        now,
+        formatName,
+        windowCount,
+        tabCount,
+        escapeAs,
+        representation,
+      }),
+
+    windowStart: ({ window, seq, windowCount, windowTabCount }) =>
+      interpolate('windowStart', template, {
+        window,
+        windowSeq: seq,
+        windowCount,
+        windowTabCount,
+        escapeAs,
+        representation,
+      }),
+
+    groupStart: ({ group, windowSeq }) =>
+      interpolate('groupStart', template, {
+        group,
+        windowSeq,
+        escapeAs,
+        representation,
+      }),
+
+    tab: ({ tab, globalSeq, windowTabSeq, windowSeq, windowCount, group, page }) =>
+      interpolate('tab', template, {
+        now,
+        tab,
+        group,
+        page,
+        parsedUrl: new URL(tab.url!),
+        tabSeq: globalSeq,
+        windowTabSeq,
+        windowSeq,
+        windowCount,
+        escapeAs,
+        representation,
+      }),
+
+    tabDelimiter: interpolate('tabDelimiter', template, {
+      escapeAs,
+      representation,
+    }),
+
+    groupEnd: ({ group, windowSeq }) =>
+      interpolate('groupEnd', template, {
+        group,
+        windowSeq,
+        escapeAs,
+        representation,
+      }),
+
+    windowEnd: ({ window, seq, windowCount, windowTabCount }) =>
+      interpolate('windowEnd', template, {
+        window,
+        windowSeq: seq,
+        windowCount,
+        windowTabCount,
+        escapeAs,
+        representation,
+      }),
+
+    windowDelimiter: interpolate('windowDelimiter', template, {
+      escapeAs,
+      representation,
+    }),
+
+    end: ({ formatName, windowCount, tabCount }) =>
+      interpolate('end', template, {
+        now,
+        formatName,
+        windowCount,
+        tabCount,
+        escapeAs,
+        representation,
+      }),
+  }
+}
+
+function parseTemplateFields(template: Record<TemplateFieldId, string>) {
+  return Object.fromEntries(
+    Object.entries(template).map(([fieldId, fieldTemplate]) => [
+      fieldId,
+      parseTemplate(fieldTemplate),
+    ]),
+  ) as Record<TemplateFieldId, TemplateNode[]>
+}
+
 // return type annotation necessary to address TS circular reference error
 async function getLinkPlaintextFallbackTextTransform(formatId?: string): Promise<TextTransform> {
   const format = await getLinkPlaintextFallbackFormat(formatId)
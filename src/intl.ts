@@ -1,4 +1,5 @@
 import { MIN_VISIBLE_FORMAT_COUNT } from '@/format'
+import { sentenceCase } from '@/util/string'
 
 export const intl = {
   // ----- copying  -----
@@ -45,6 +46,48 @@ export const intl = {
 
   copyFail: () => 'copy failed',
 
+  // ----- open from clipboard -----
+
+  open: () => 'open',
+
+  openFromClipboard: () => 'open from clipboard',
+
+  openSummary: ({
+    // wrap
+    tabCount,
+    windowCount,
+    sourceLabel,
+  }: {
+    tabCount: number
+    windowCount?: number
+    sourceLabel: string
+  }) =>
+    `${sourceLabel} detected. open ${tabCount} ${intl.tab(tabCount)}${
+      windowCount ? ` in ${windowCount} new ${intl.window(windowCount)}` : ''
+    }?`,
+
+  nothingToOpen: () => 'no links found in the clipboard',
+
+  clipboardReadRequired: () => 'clipboard access is required to open tabs from the clipboard',
+
+  grantClipboardAccess: () => 'grant access',
+
+  openFail: () => 'open failed',
+
+  urlList: () => 'URL list',
+
+  // ----- pick tabs -----
+
+  pickTabs: () => 'pick tabs',
+
+  searchTabs: () => 'search tabs',
+
+  selectAll: () => 'select all',
+
+  noMatchingTabs: () => 'no matching tabs',
+
+  copyPickedTabs: (count: number) => `copy ${count} ${intl.tab(count)}`,
+
   // ----- copy scope -----
 
   copySelectedTabs: (formatLabel?: string): string =>
@@ -57,6 +100,44 @@ export const intl = {
       ? `${intl.copyWindowTabs()} as ${formatLabel}`
       : 'copy window tabs',
 
+  copyGroupTabs: (formatLabel?: string): string =>
+    formatLabel // wrap
+      ? `${intl.copyGroupTabs()} as ${formatLabel}`
+      : 'copy tab group',
+
+  copyLeftTabs: (formatLabel?: string): string =>
+    formatLabel // wrap
+      ? `${intl.copyLeftTabs()} as ${formatLabel}`
+      : 'copy tabs to the left',
+
+  copyRightTabs: (formatLabel?: string): string =>
+    formatLabel // wrap
+      ? `${intl.copyRightTabs()} as ${formatLabel}`
+      : 'copy tabs to the right',
+
+  copyDomainTabs: (formatLabel?: string): string =>
+    formatLabel // wrap
+      ? `${intl.copyDomainTabs()} as ${formatLabel}`
+      : 'copy domain tabs',
+
+  copyAudibleTabs: (formatLabel?: string): string =>
+    formatLabel // wrap
+      ? `${intl.copyAudibleTabs()} as ${formatLabel}`
+      : 'copy tabs playing sound',
+
+  copyOtherWindows: (formatLabel?: string): string =>
+    formatLabel // wrap
+      ? `${intl.copyOtherWindows()} as ${formatLabel}`
+      : 'copy other windows',
+
+  copyCustomRange: (name: string, formatLabel?: string): string =>
+    formatLabel // wrap
+      ? `${intl.copyCustomRange(name)} as ${formatLabel}`
+      : `copy ${name || intl.untitledRange()}`,
+
+  // keyboard command bound to a custom range by its order in options
+  copyCustomRangeNumber: (n: number) => `copy custom range ${n}`,
+
   copyAllTabs: (formatLabel?: string): string =>
     formatLabel // wrap
       ? `${intl.copyAllTabs()} as ${formatLabel}`
@@ -67,6 +148,11 @@ export const intl = {
       ? `${intl.copyAllWindowsAndTabs()} as ${formatLabel}`
       : 'copy all tabs by window',
 
+  copyRecentlyClosed: (formatLabel?: string): string =>
+    formatLabel // wrap
+      ? `${intl.copyRecentlyClosed()} as ${formatLabel}`
+      : 'copy recently closed',
+
   thisTab: () => 'this tab',
 
   selectedTabs: () => 'selected tabs',
@@ -74,10 +160,33 @@ export const intl = {
   selectedTabsDescription: () =>
     'selected tabs in\nthe current window\n(usually just the current tab)',
 
+  tabsToTheLeft: () => 'tabs to the left',
+
+  tabsToTheLeftDescription: () => 'tabs to the left of\nthe current tab',
+
+  tabsToTheRight: () => 'tabs to the right',
+
+  tabsToTheRightDescription: () => 'tabs to the right of\nthe current tab',
+
   thisWindowsTabs: () => "this window's tabs",
 
   thisWindowsTabsDescription: () => 'all tabs in the current window',
 
+  thisTabGroup: () => 'this tab group',
+
+  thisTabGroupDescription: () => 'all tabs in the tab group\nof the current tab',
+
+  thisDomainsTabs: () => "this domain's tabs",
+
+  thisDomainsTabsDescription: () => 'tabs on the domain of\nthe current tab, in all windows',
+
+  audibleTabsDescription: () => 'tabs playing sound,\nin all windows',
+
+  otherWindows: () => 'other windows',
+
+  otherWindowsDescription: () =>
+    'all tabs in windows other than\nthe current one, grouped by window',
+
   allTabs: () => 'all tabs',
 
   allTabsDescription: () => 'all tabs, ungrouped',
@@ -86,6 +195,15 @@ export const intl = {
 
   allWindowsAndTabsDescription: () => 'all tabs, grouped by window',
 
+  recentlyClosed: () => 'recently closed',
+
+  recentlyClosedDescription: () =>
+    'recently closed tabs and windows,\ngrouped by window. requires\naccess to recent browsing history.',
+
+  untitledRange: () => 'untitled range',
+
+  customRangeDescription: () => 'a range you created',
+
   noTabsFound: () => 'No tabs found. Check filtering options.',
 
   // ----- copy format -----
@@ -103,8 +221,16 @@ export const intl = {
 
   csvDescription: () => 'comma-separated values',
 
+  ndjsonDescription: () => 'newline-delimited JSON, one tab per line',
+
   htmlTable: () => 'HTML table',
 
+  netscapeBookmarks: () => 'bookmarks file',
+
+  netscapeBookmarksDescription: () => 'Netscape bookmark file for importing into browsers',
+
+  opmlDescription: () => 'outline for importing into feed readers and outliners',
+
   customDescription: () => 'a format you created',
 
   default: () => 'default',
@@ -121,30 +247,173 @@ export const intl = {
 
   properties: () => 'properties',
 
+  windowProperties: () => 'window properties',
+
+  shape: () => 'shape',
+
+  structuredShape: (shape: 'nested' | 'flat' | 'keyed') => {
+    switch (shape) {
+      case 'flat':
+        return 'Flat tabs with windowId'
+
+      case 'keyed':
+        return 'Keyed by window ID'
+
+      default:
+        return 'Windows with nested tabs'
+    }
+  },
+
   layout: () => 'layout',
 
   pretty: () => 'pretty',
 
   indent: () => 'indent',
 
+  flavor: () => 'flavor',
+
+  listStyle: () => 'list style',
+
+  markdownListStyle: (style: 'none' | 'bullet' | 'numbered' | 'task') => {
+    switch (style) {
+      case 'bullet':
+        return 'Bulleted'
+
+      case 'numbered':
+        return 'Numbered'
+
+      case 'task':
+        return 'Task list'
+
+      default:
+        return 'None'
+    }
+  },
+
+  windowHeadingLevel: () => 'window heading level',
+
+  linkStyle: () => 'link style',
+
+  inlineLinks: () => 'Inline',
+
+  referenceLinks: () => 'Reference-style',
+
+  richText: () => 'rich text',
+
+  richTextDescription: () => 'paste as formatted text in apps that support it',
+
+  columns: () => 'columns',
+
+  columnsDescription: () => 'drag to reorder',
+
+  linkTitles: () => 'link titles',
+
+  inlineStyles: () => 'inline styles',
+
+  inlineStylesDescription: () => 'add borders and padding that survive pasting into email',
+
+  delimiter: () => 'delimiter',
+
+  csvDelimiter: (delimiter: ',' | ';' | '\t') => {
+    switch (delimiter) {
+      case ';':
+        return 'Semicolon'
+
+      case '\t':
+        return 'Tab (TSV)'
+
+      default:
+        return 'Comma'
+    }
+  },
+
+  quoting: () => 'quoting',
+
+  csvQuoting: (quoting: 'minimal' | 'always') => (quoting === 'always' ? 'Always' : 'As needed'),
+
   name: () => 'name',
 
   start: () => 'start',
 
   windowStart: () => 'window start',
 
+  groupStart: () => 'group start',
+
   tabDelimiter: () => 'tab delimiter',
 
+  groupEnd: () => 'group end',
+
   windowEnd: () => 'window end',
 
   windowDelimiter: () => 'window delimiter',
 
   end: () => 'end',
 
+  locale: () => 'date locale',
+
+  timeZone: () => 'time zone',
+
+  variables: () => 'variables',
+
+  value: () => 'value',
+
+  addVariable: () => '+ add variable',
+
+  removeVariable: () => 'remove variable',
+
+  escapeAs: () => 'escape token values as',
+
+  escapeMode: (escapeAs: 'none' | 'markdown' | 'csv' | 'json' | 'xml' | 'shell') => {
+    switch (escapeAs) {
+      case 'markdown':
+        return 'Markdown'
+
+      case 'csv':
+        return 'CSV'
+
+      case 'json':
+        return 'JSON string'
+
+      case 'xml':
+        return 'XML'
+
+      case 'shell':
+        return 'Shell'
+
+      default:
+        return 'None'
+    }
+  },
+
   insert: () => 'insert',
 
   preview: () => 'preview',
 
+  unknownToken: (token: string) => `unknown token ${token}`,
+
+  tokenNotInField: (token: string, fieldLabel: string) =>
+    `${token} is not available in the ${fieldLabel} field`,
+
+  invalidTokenArgs: (token: string) => `invalid arguments for ${token}`,
+
+  unknownFilter: (filter: string) => `unknown filter "${filter}"`,
+
+  invalidFilterArgs: (filter: string) => `invalid arguments for filter "${filter}"`,
+
+  filtersNotSupported: (token: string) => `${token} does not accept filters`,
+
+  unclosedSection: () => 'conditional section is missing [/?]',
+
+  strayElse: () => '[?else] outside of a conditional section',
+
+  strayEnd: () => '[/?] without a matching conditional section',
+
+  unmatchedBracket: (bracket: '[' | ']') => `unmatched ${bracket}`,
+
+  pageAccessRequired: () => 'page tokens require permission to read page content',
+
+  allowPageAccess: () => 'allow',
+
   deleteFormat: () => 'delete format',
 
   confirmDelete: () => 'are you sure you want to delete this format?',
@@ -184,6 +453,28 @@ export const intl = {
 
   addFormat: () => 'add format',
 
+  addRange: () => 'add range',
+
+  rangeOpts: () => 'range options',
+
+  rules: () => 'rules',
+
+  currentWindowOnly: () => 'current window only',
+
+  currentWindowOnlyDescription: () => 'only copy matching tabs\nin the current window',
+
+  customRangeShortcut: (n: number) =>
+    `bind a shortcut to "${sentenceCase(intl.copyCustomRangeNumber(n))}"`,
+
+  deleteRange: () => 'delete range',
+
+  confirmDeleteRange: () => 'are you sure you want to delete this range?',
+
+  minVisibleScopeDeleteError: () =>
+    'this range cannot be deleted\nbecause it is the only visible range',
+
+  genericScopeDeleteError: () => 'unable to delete this range',
+
   // ----- options -----
 
   enablePopup: () => 'enable popup',
@@ -212,9 +503,10 @@ export const intl = {
   provideContextMenuFormatSelectionDescription: () =>
     'select a format when copying instead of using the default',
 
-  ignorePinnedTabs: () => 'ignore pinned tabs',
+  showOpenFromClipboardMenu: () => 'include open from clipboard',
 
-  ignorePinnedTabsDescription: () => 'omit pinned tabs from\nthe tabs that are copied',
+  showOpenFromClipboardMenuDescription: () =>
+    'include an action in the context menu\nthat opens links in the clipboard as tabs',
 
   notifyOnCopy: () => 'notify on copy',
 
@@ -224,8 +516,50 @@ export const intl = {
 
   invertIconDescription: () => 'adjust the Tab Copy icon\ncolor for best visibility',
 
+  recentlyClosedCount: () => 'recently closed entries',
+
+  recentlyClosedCountDescription: () =>
+    'how many recently closed tabs\nand windows to copy. a closed\nwindow counts as one entry.',
+
   editKeyboardShortcuts: () => 'edit keyboard shortcuts...',
 
+  // ----- tab filter -----
+
+  tabFilter: () => 'tab filter',
+
+  include: () => 'include',
+
+  exclude: () => 'exclude',
+
+  urlGlob: () => 'URL',
+
+  urlRegex: () => 'URL regex',
+
+  scheme: () => 'scheme',
+
+  domain: () => 'domain',
+
+  tabGroup: () => 'tab group',
+
+  anyGroup: () => 'any group',
+
+  pinnedTabs: () => 'pinned tabs',
+
+  discardedTabs: () => 'unloaded tabs',
+
+  audibleTabs: () => 'tabs playing sound',
+
+  incognitoTabs: () => 'incognito tabs',
+
+  addRule: () => '+ add rule',
+
+  removeRule: () => 'remove rule',
+
+  applyToSelectedTabs: () => 'apply to selected tabs',
+
+  applyToSelectedTabsDescription: () =>
+    'also filter the tabs copied\nwith the selected tabs button',
+
   // ----- modifier keys -----
 
   alt: () => 'alt',
@@ -242,6 +576,8 @@ export const intl = {
 
   window: (count = 1) => (count === 1 ? 'window' : 'windows'),
 
+  untitledGroup: (color: string) => `${color} group`,
+
   tab: (count = 1) => (count === 1 ? 'tab' : 'tabs'),
 
   link: (count = 1) => (count === 1 ? 'link' : 'links'),
@@ -9,6 +9,14 @@ import pkg from '../package.json'
 //   - intl.copyWindowTabs()
 //   - intl.copyAllTabs()
 //   - intl.copyAllWindowsAndTabs()
+//   - intl.copyGroupTabs()
+//   - intl.copyLeftTabs()
+//   - intl.copyRightTabs()
+//   - intl.copyDomainTabs()
+//   - intl.copyOtherWindows()
+//   - intl.copyAudibleTabs()
+//   - intl.copyCustomRangeNumber(1), intl.copyCustomRangeNumber(2), intl.copyCustomRangeNumber(3)
+//   - intl.copyRecentlyClosed()
 
 export default defineManifest({
   name: pkg.displayName,
@@ -33,9 +41,11 @@ export default defineManifest({
   },
   options_page: 'options.html',
   // clipboardWrite is required for context menu and command-based copy. if not present, `document.execCommand('copy')` fails and returns false, even when Clipboard web perm is granted.
-  permissions: ['tabs', 'storage', 'contextMenus', 'offscreen', 'clipboardWrite'],
-  optional_permissions: ['notifications'],
-  // optional_host_permissions: ['file:///*'],
+  permissions: ['tabs', 'tabGroups', 'storage', 'contextMenus', 'offscreen', 'clipboardWrite'],
+  // scripting and host access are requested together for custom format page tokens, eg `[description]`
+  // sessions is requested when the recently closed range is made visible
+  optional_permissions: ['notifications', 'clipboardRead', 'scripting', 'sessions'],
+  optional_host_permissions: ['<all_urls>'],
   content_security_policy: {
     extension_pages: "script-src 'self'; object-src 'self'",
   },
@@ -53,5 +63,38 @@ export default defineManifest({
     '4copy-all-windows-and-tabs': {
       description: 'Copy all tabs by window',
     },
+    // appended rather than inserted after window tabs to preserve existing shortcut assignments, which are keyed by command name
+    '5copy-group-tabs': {
+      description: 'Copy tab group',
+    },
+    '6copy-left-tabs': {
+      description: 'Copy tabs to the left',
+    },
+    '7copy-right-tabs': {
+      description: 'Copy tabs to the right',
+    },
+    '8copy-domain-tabs': {
+      description: 'Copy domain tabs',
+    },
+    '9copy-other-windows': {
+      description: 'Copy other windows',
+    },
+    // letters continue the number prefix sequence since keys are ordered as strings
+    'acopy-audible-tabs': {
+      description: 'Copy tabs playing sound',
+    },
+    // custom ranges by their order in options. count must match `CUSTOM_SCOPE_COMMAND_COUNT`.
+    'bcopy-custom-scope-1': {
+      description: 'Copy custom range 1',
+    },
+    'ccopy-custom-scope-2': {
+      description: 'Copy custom range 2',
+    },
+    'dcopy-custom-scope-3': {
+      description: 'Copy custom range 3',
+    },
+    'ecopy-recently-closed': {
+      description: 'Copy recently closed',
+    },
   },
 })
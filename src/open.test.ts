@@ -0,0 +1,206 @@
+import { describe, expect, it } from 'vitest'
+
+import { parseClipboardContent, getOpenPlanTabCount } from '@/open'
+import { NxsMimeContent } from '@/util/nxs-mime-type'
+
+// html parsing requires a DOM, so these tests cover the other sources
+
+describe('parseClipboardContent', () => {
+  it('returns undefined without openable tabs', () => {
+    expect(parseClipboardContent({})).toBeUndefined()
+    expect(parseClipboardContent({ text: 'no links here' })).toBeUndefined()
+    expect(parseClipboardContent({ text: 'javascript://alert(1)\ndata://x' })).toBeUndefined()
+  })
+
+  it('parses urls, with preceding text as titles and standalone lines as windows', () => {
+    const text = [
+      'Window 1',
+      '',
+      'Example: https://example.com/',
+      'Docs',
+      'https://docs.example.com/',
+      '',
+      'Window 2',
+      '',
+      'https://example.org/',
+    ].join('\n')
+
+    expect(parseClipboardContent({ text })).toEqual({
+      source: 'urls',
+      grouped: true,
+      windows: [
+        {
+          title: 'Window 1',
+          tabs: [
+            { url: 'https://example.com/', title: 'Example' },
+            { url: 'https://docs.example.com/', title: 'Docs' },
+          ],
+        },
+        { title: 'Window 2', tabs: [{ url: 'https://example.org/', title: undefined }] },
+      ],
+    })
+  })
+
+  it('parses markdown links, with headings as windows', () => {
+    const text = '## Work\n\n- [A \\[1\\]](https://a.com/)\n\n## Play\n\n[B](https://b.com/x\\_y)'
+
+    expect(parseClipboardContent({ text })).toEqual({
+      source: 'markdown',
+      grouped: true,
+      windows: [
+        { title: 'Work', tabs: [{ url: 'https://a.com/', title: 'A [1]' }] },
+        { title: 'Play', tabs: [{ url: 'https://b.com/x_y', title: 'B' }] },
+      ],
+    })
+  })
+
+  it('parses csv with a url field, grouped by an optional window field', () => {
+    const text = 'Window;Title;URL\n1;A;https://a.com/\n1;B;https://b.com/\n2;C;https://c.com/'
+
+    expect(parseClipboardContent({ text })).toEqual({
+      source: 'csv',
+      grouped: true,
+      windows: [
+        {
+          title: '1',
+          tabs: [
+            { url: 'https://a.com/', title: 'A' },
+            { url: 'https://b.com/', title: 'B' },
+          ],
+        },
+        { title: '2', tabs: [{ url: 'https://c.com/', title: 'C' }] },
+      ],
+    })
+
+    expect(parseClipboardContent({ text: 'url\nhttps://a.com/' })).toMatchObject({
+      source: 'csv',
+      grouped: false,
+      windows: [{ tabs: [{ url: 'https://a.com/' }] }],
+    })
+  })
+
+  it('parses json tabs and windows', () => {
+    expect(
+      parseClipboardContent({ text: '[{"url":"https://a.com/","title":"A","pinned":true},{}]' }),
+    ).toEqual({
+      source: 'json',
+      grouped: false,
+      windows: [{ tabs: [{ url: 'https://a.com/', title: 'A', pinned: true }] }],
+    })
+
+    expect(
+      parseClipboardContent({
+        text: '{"windows":[{"title":"W","tabs":[{"url":"https://a.com/"}]},{"tabs":[]}]}',
+      }),
+    ).toEqual({
+      source: 'json',
+      grouped: true,
+      windows: [{ title: 'W', tabs: [{ url: 'https://a.com/', title: undefined, pinned: false }] }],
+    })
+  })
+
+  it('falls back to other parsers for malformed json', () => {
+    expect(parseClipboardContent({ text: '[oops] https://a.com/' })).toMatchObject({
+      source: 'urls',
+      windows: [{ tabs: [{ url: 'https://a.com/', title: '[oops]' }] }],
+    })
+  })
+
+  it('drops unopenable and invalid urls', () => {
+    expect(
+      parseClipboardContent({
+        text: '[a](javascript:alert(1))\n[b](not-a-url)\n[c](https://c.com/)',
+      }),
+    ).toMatchObject({
+      source: 'markdown',
+      windows: [{ tabs: [{ url: 'https://c.com/', title: 'c' }] }],
+    })
+  })
+})
+
+describe('parseClipboardContent with nxs content', () => {
+  const windowsContent = (windows: unknown[]) =>
+    ({ type: 'windows', value: { windows } }) as unknown as NxsMimeContent
+
+  it('takes precedence over text', () => {
+    const plan = parseClipboardContent({
+      text: 'https://text.com/',
+      nxs: windowsContent([
+        {
+          title: 'W',
+          state: 'maximized',
+          top: 1,
+          left: 2,
+          width: 3,
+          height: 4,
+          tabs: [{ url: 'https://a.com/', title: 'A', pinned: true, active: true }],
+        },
+      ]),
+    })
+
+    expect(plan).toEqual({
+      source: 'nxs',
+      grouped: true,
+      windows: [
+        {
+          title: 'W',
+          state: 'maximized',
+          top: 1,
+          left: 2,
+          width: 3,
+          height: 4,
+          tabs: [{ url: 'https://a.com/', title: 'A', pinned: true, active: true }],
+        },
+      ],
+    })
+  })
+
+  it('ignores unknown window states and mistyped props', () => {
+    const plan = parseClipboardContent({
+      nxs: windowsContent([
+        { state: 'locked-fullscreen', top: '1', tabs: [{ url: 'https://a.com/', title: 1 }] },
+      ]),
+    })
+
+    expect(plan?.windows[0]).toMatchObject({
+      state: undefined,
+      top: undefined,
+      tabs: [{ url: 'https://a.com/', title: undefined }],
+    })
+  })
+
+  it('parses folders of links', () => {
+    const plan = parseClipboardContent({
+      nxs: {
+        type: 'folders',
+        value: { folders: [{ title: 'F', links: [{ url: 'https://a.com/' }] }] },
+      } as unknown as NxsMimeContent,
+    })
+
+    expect(plan).toMatchObject({
+      source: 'nxs',
+      windows: [{ title: 'F', tabs: [{ url: 'https://a.com/', active: undefined }] }],
+    })
+    expect(plan?.windows[0]).not.toHaveProperty('state')
+  })
+
+  it('falls back to text when malformed', () => {
+    for (const windows of [[{ tabs: [{ url: 1 }] }], [{ tabs: 'x' }], ['x']]) {
+      expect(
+        parseClipboardContent({ text: 'https://text.com/', nxs: windowsContent(windows) }),
+      ).toMatchObject({ source: 'urls' })
+    }
+  })
+})
+
+describe('getOpenPlanTabCount', () => {
+  it('counts tabs across windows', () => {
+    expect(
+      getOpenPlanTabCount({
+        source: 'urls',
+        grouped: true,
+        windows: [{ tabs: [{ url: 'a' }, { url: 'b' }] }, { tabs: [{ url: 'c' }] }],
+      }),
+    ).toBe(3)
+  })
+})
@@ -0,0 +1,492 @@
+import { parseCSV, detectCSVDelimiter } from '@/util/csv'
+import { clipboardRead, clipboardReadNxs } from '@/util/clipboard'
+import { NxsMimeContent } from '@/util/nxs-mime-type'
+import { jsonParse } from '@/util/json'
+import { log } from '@/util/log'
+
+// This file contains logic for the "open from clipboard" feature, which restores tabs and windows from clipboard content
+// - clipboard content is parsed into an OpenPlan, which the user confirms before it is opened
+// - opening is delegated to the service worker because the popup closes (and its script stops) as soon as a new window takes focus
+
+const TARGET = 'background'
+
+// clipboard content sources in order of detection precedence
+export type OpenSource = 'nxs' | 'json' | 'csv' | 'html' | 'markdown' | 'urls'
+
+export type OpenTab = {
+  url: string
+  title?: string
+  pinned?: boolean
+  active?: boolean
+}
+
+export type OpenWindow = {
+  title?: string
+  state?: chrome.windows.windowStateEnum
+  top?: number
+  left?: number
+  width?: number
+  height?: number
+  tabs: OpenTab[]
+}
+
+export type OpenPlan = {
+  source: OpenSource
+  grouped: boolean // true if clipboard content specifies window grouping. grouped plans are opened as new windows.
+  windows: OpenWindow[] // ungrouped plans have a single window
+}
+
+export type ClipboardContent = {
+  text?: string
+  html?: string
+  nxs?: NxsMimeContent
+}
+
+type OpenMessage = {
+  target: typeof TARGET
+  type: 'open'
+  data: OpenPlan
+}
+
+// --- clipboard ---
+
+// return null if clipboard access is not granted
+export async function readClipboardContent(): Promise<ClipboardContent | null> {
+  const textBlob = await clipboardRead('text/plain')
+
+  if (textBlob === null) return null
+
+  const htmlBlob = await clipboardRead('text/html')
+
+  return {
+    text: await textBlob?.text(),
+    html: await htmlBlob?.text(),
+    nxs: (await clipboardReadNxs()) ?? undefined,
+  }
+}
+
+export function hasClipboardReadPermission() {
+  return chrome.permissions.contains({ permissions: ['clipboardRead'] })
+}
+
+// must be called in response to a user gesture
+export function requestClipboardReadPermission() {
+  return chrome.permissions.request({ permissions: ['clipboardRead'] })
+}
+
+// --- parsing ---
+
+// returns undefined if no openable tabs are found
+export function parseClipboardContent({ text, html, nxs }: ClipboardContent) {
+  const trimmedText = text?.trim() ?? ''
+
+  // ordered by detection precedence. the first parser to yield openable tabs wins.
+  const parsers = [
+    () => nxs && parseNxs(nxs),
+    () => /^[[{]/.test(trimmedText) && parseJson(trimmedText),
+    () => parseCsv(trimmedText),
+    () => html && parseHtml(html),
+    () => /<a\s[^>]*href/i.test(trimmedText) && parseHtml(trimmedText),
+    () => parseMarkdown(trimmedText),
+    () => parseUrls(trimmedText),
+  ]
+
+  for (const parse of parsers) {
+    const plan = parse()
+
+    if (!plan) continue
+
+    const windows = plan.windows
+      .map((win) => ({
+        ...win,
+        tabs: win.tabs.filter(({ url }) => isOpenableUrl(url)),
+      }))
+      .filter(({ tabs }) => tabs.length)
+
+    if (windows.length) {
+      return {
+        ...plan,
+        windows,
+      } satisfies OpenPlan
+    }
+  }
+}
+
+export function getOpenPlanTabCount({ windows }: OpenPlan) {
+  return windows.reduce((count, { tabs }) => count + tabs.length, 0)
+}
+
+// nxs content may be written by other apps, so its shape is checked. returns undefined if malformed.
+function parseNxs(content: NxsMimeContent): OpenPlan | undefined {
+  const value: unknown = content.value
+
+  if (!isObject(value)) return
+
+  const items = content.type === 'windows' ? value.windows : value.folders
+
+  if (!Array.isArray(items) || !items.every(isObject)) return
+
+  const windows: OpenWindow[] = []
+
+  for (const item of items) {
+    const tabs = content.type === 'windows' ? item.tabs : item.links
+
+    if (
+      !Array.isArray(tabs) ||
+      !tabs.every((tab) => isObject(tab) && typeof tab.url === 'string')
+    ) {
+      return
+    }
+
+    windows.push({
+      title: getString(item.title),
+      ...(content.type === 'windows' && {
+        state: getWindowState(item.state),
+        top: getNumber(item.top),
+        left: getNumber(item.left),
+        width: getNumber(item.width),
+        height: getNumber(item.height),
+      }),
+      tabs: tabs.map(({ url, title, pinned, active }) => ({
+        url,
+        title: getString(title),
+        pinned: pinned === true,
+        active: content.type === 'windows' ? active === true : undefined,
+      })),
+    })
+  }
+
+  return {
+    source: 'nxs',
+    grouped: true,
+    windows,
+  }
+
+  function isObject(value: unknown): value is Record<string, any> {
+    return !!value && typeof value === 'object'
+  }
+
+  function getString(value: unknown) {
+    return typeof value === 'string' ? value : undefined
+  }
+
+  function getNumber(value: unknown) {
+    return typeof value === 'number' ? value : undefined
+  }
+
+  // locked-fullscreen is excluded because only allowlisted extensions can create such windows
+  function getWindowState(value: unknown): chrome.windows.windowStateEnum | undefined {
+    return value === 'normal' ||
+      value === 'minimized' ||
+      value === 'maximized' ||
+      value === 'fullscreen'
+      ? value
+      : undefined
+  }
+}
+
+// supports arrays of tabs, arrays of windows with `tabs`, and objects with a `windows` array
+function parseJson(text: string): OpenPlan | undefined {
+  const value = jsonParse(text)
+
+  if (!value || typeof value !== 'object') return
+
+  const windows = getJsonWindows(value)
+
+  if (windows) {
+    return {
+      source: 'json',
+      grouped: true,
+      windows,
+    }
+  }
+
+  const tabs = getJsonTabs(value)
+
+  if (tabs?.length) {
+    return {
+      source: 'json',
+      grouped: false,
+      windows: [{ tabs }],
+    }
+  }
+
+  function getJsonWindows(value: unknown): OpenWindow[] | undefined {
+    if (Array.isArray(value)) {
+      if (value.length && value.every((item) => item && Array.isArray(item.tabs))) {
+        return value.map((item) => ({
+          title: typeof item.title === 'string' ? item.title : undefined,
+          tabs: getJsonTabs(item.tabs) ?? [],
+        }))
+      }
+    } else if (value && typeof value === 'object' && 'windows' in value) {
+      return getJsonWindows(value.windows)
+    }
+  }
+
+  function getJsonTabs(value: unknown): OpenTab[] | undefined {
+    if (!Array.isArray(value)) return
+
+    return value
+      .filter((item) => item && typeof item.url === 'string')
+      .map(({ url, title, pinned }) => ({
+        url,
+        title: typeof title === 'string' ? title : undefined,
+        pinned: pinned === true,
+      }))
+  }
+}
+
+// requires a header row with a `URL` field. an optional `Window` field provides window grouping. comma, semicolon, and tab delimiters are supported.
+function parseCsv(text: string): OpenPlan | undefined {
+  if (!/^[^\n]*\burl\b/i.test(text)) return
+
+  const { fields, records, error } = parseCSV(text, detectCSVDelimiter(text))
+
+  if (error || !fields || !records) return
+
+  const fieldIdx = (name: string) =>
+    fields.findIndex((field) => `${field}`.trim().toLowerCase() === name)
+
+  const urlIdx = fieldIdx('url')
+  const titleIdx = fieldIdx('title')
+  const windowIdx = fieldIdx('window')
+
+  if (urlIdx === -1) return
+
+  const windows: OpenWindow[] = []
+  let currentWindowKey: unknown
+
+  for (const record of records) {
+    const url = record[urlIdx]
+
+    if (typeof url !== 'string') continue
+
+    const windowKey = windowIdx === -1 ? undefined : record[windowIdx]
+
+    if (!windows.length || windowKey !== currentWindowKey) {
+      currentWindowKey = windowKey
+      windows.push({
+        title: windowKey == null ? undefined : `${windowKey}`,
+        tabs: [],
+      })
+    }
+
+    const title = titleIdx === -1 ? null : record[titleIdx]
+
+    windows[windows.length - 1].tabs.push({
+      url,
+      title: title == null ? undefined : `${title}`,
+    })
+  }
+
+  return {
+    source: 'csv',
+    grouped: windowIdx !== -1,
+    windows,
+  }
+}
+
+// headings start new windows
+function parseHtml(html: string): OpenPlan | undefined {
+  const doc = new DOMParser().parseFromString(html, 'text/html')
+
+  const windows: OpenWindow[] = [{ tabs: [] }]
+  let grouped = false
+
+  for (const el of doc.querySelectorAll('h1, h2, h3, h4, h5, h6, a[href]')) {
+    if (el instanceof HTMLAnchorElement) {
+      windows[windows.length - 1].tabs.push({
+        url: el.getAttribute('href')!,
+        title: el.textContent?.trim() || undefined,
+      })
+    } else {
+      grouped = true
+      startWindow(windows, el.textContent?.trim())
+    }
+  }
+
+  return {
+    source: 'html',
+    grouped,
+    windows,
+  }
+}
+
+// headings start new windows
+function parseMarkdown(text: string): OpenPlan | undefined {
+  const rxLink = /\[((?:\\.|[^\]\\])*)\]\(((?:\\.|[^)\\\s])+)\)/g
+  const rxHeading = /^#{1,6}\s+(.*)$/
+
+  if (!text.match(rxLink)) return
+
+  const windows: OpenWindow[] = [{ tabs: [] }]
+  let grouped = false
+
+  for (const line of text.split(/\r?\n/)) {
+    const heading = line.match(rxHeading)
+
+    if (heading) {
+      grouped = true
+      startWindow(windows, heading[1].trim())
+      continue
+    }
+
+    for (const [, title, url] of line.matchAll(rxLink)) {
+      windows[windows.length - 1].tabs.push({
+        url: unescapeMarkdown(url),
+        title: unescapeMarkdown(title) || undefined,
+      })
+    }
+  }
+
+  return {
+    source: 'markdown',
+    grouped,
+    windows,
+  }
+}
+
+// one url per line. text preceding a url on the same line or on the preceding line is treated as its title. a standalone line surrounded by blank lines (eg "Window 1") starts a new window.
+function parseUrls(text: string): OpenPlan | undefined {
+  const rxUrl = /[a-z][a-z\d+.-]*:\/\/\S+/i
+
+  const lines = text.split(/\r?\n/).map((line) => line.trim())
+
+  const windows: OpenWindow[] = [{ tabs: [] }]
+  let grouped = false
+  let pendingTitle: string | undefined
+
+  lines.forEach((line, i) => {
+    const match = line.match(rxUrl)
+
+    if (match) {
+      const title = line.slice(0, match.index).replace(/[\s:|\-–—]+$/, '') || pendingTitle
+
+      windows[windows.length - 1].tabs.push({
+        url: match[0],
+        title,
+      })
+
+      pendingTitle = undefined
+    } else if (line && !lines[i - 1] && !lines[i + 1] && lines.slice(i + 1).some(Boolean)) {
+      grouped = true
+      pendingTitle = undefined
+      startWindow(windows, line)
+    } else {
+      pendingTitle = line || undefined
+    }
+  })
+
+  return {
+    source: 'urls',
+    grouped,
+    windows,
+  }
+}
+
+// starts a new window unless the current window is empty, in which case it is titled instead
+function startWindow(windows: OpenWindow[], title?: string) {
+  const currentWindow = windows[windows.length - 1]
+
+  if (currentWindow.tabs.length) {
+    windows.push({ title, tabs: [] })
+  } else {
+    currentWindow.title = title
+  }
+}
+
+function unescapeMarkdown(text: string) {
+  return text.replace(/\\(.)/g, '$1')
+}
+
+function isOpenableUrl(url: string) {
+  try {
+    return !['javascript:', 'data:'].includes(new URL(url).protocol)
+  } catch {
+    return false
+  }
+}
+
+// --- opening ---
+
+// used by popup
+export function requestOpen(plan: OpenPlan) {
+  return chrome.runtime.sendMessage({
+    target: TARGET,
+    type: 'open',
+    data: plan,
+  } satisfies OpenMessage)
+}
+
+// used by service worker
+export function listenForOpenMessage() {
+  chrome.runtime.onMessage.addListener(({ target, type, data }: OpenMessage, _, sendResponse) => {
+    if (target === TARGET && type === 'open') {
+      open(data)
+        .then(() => sendResponse(true))
+        .catch((ex) => {
+          console.error('failed to open tabs from clipboard.', ex)
+          sendResponse(false)
+        })
+
+      return true // signal to sender that response will be sent asynchronously
+    }
+  })
+}
+
+// grouped plans are opened as new windows. ungrouped plans are opened in the current window.
+// - tabs the browser refuses to open, eg `chrome://` or `file:` URLs in some browsers, are skipped
+// - rejects only if no tabs could be opened
+export async function open(plan: OpenPlan) {
+  log(`opening ${getOpenPlanTabCount(plan)} tabs from ${plan.source} clipboard content`)
+
+  let openedCount = 0
+
+  if (!plan.grouped) {
+    for (const { url, pinned } of plan.windows.flatMap(({ tabs }) => tabs)) {
+      try {
+        await chrome.tabs.create({ url, pinned, active: false })
+        openedCount++
+      } catch (ex) {
+        console.warn(`unable to open ${url}`, ex)
+      }
+    }
+  } else {
+    for (const { state, top, left, width, height, tabs } of plan.windows) {
+      let windowId: number | undefined
+
+      for (const { url, pinned, active } of tabs) {
+        try {
+          let tabId: number | undefined
+
+          if (windowId === undefined) {
+            // the window is created with its first openable tab
+            const win = await chrome.windows.create({
+              url,
+              // geometry cannot be combined with minimized, maximized, or fullscreen states
+              ...(state && state !== 'normal' ? { state } : { top, left, width, height }),
+            })
+
+            windowId = win?.id
+            tabId = win?.tabs?.[0]?.id
+          } else {
+            tabId = (await chrome.tabs.create({ windowId, url, active: false })).id
+          }
+
+          openedCount++
+
+          if (tabId !== undefined && (pinned || active)) {
+            await chrome.tabs.update(tabId, { pinned, active })
+          }
+        } catch (ex) {
+          console.warn(`unable to open ${url}`, ex)
+        }
+      }
+    }
+  }
+
+  if (!openedCount) {
+    throw new Error('no tabs could be opened')
+  }
+}
@@ -11,6 +11,9 @@ export type OptionValue<T extends OptionId> = Extract<OptionSpec, { id: T }>['de
 export type BooleanOption = Extract<Option, { def: boolean }>
 export type BooleanOptionId = BooleanOption['id']
 
+export type NumberOption = Extract<Option, { def: number }>
+export type NumberOptionId = NumberOption['id']
+
 // a subOption is an option whose UI visibility requires the value of a depending boolean option to be `true`
 export type SubOption<T extends OptionId = OptionId> = Extract<OptionSpec, { requires: T }>
 type TopLevelOption = Exclude<OptionSpec, SubOption>
@@ -58,10 +61,12 @@ const options = [
     requires: 'showContextMenu',
   },
   {
-    id: 'ignorePinnedTabs',
+    id: 'showOpenFromClipboardMenu',
     def: false as boolean,
-    label: () => intl.ignorePinnedTabs(),
-    description: () => intl.ignorePinnedTabsDescription(),
+    label: () => intl.showOpenFromClipboardMenu(),
+    description: () => intl.showOpenFromClipboardMenuDescription(),
+    requires: 'showContextMenu',
+    requiresPermissions: ['clipboardRead'],
   },
   {
     id: 'notifyOnCopy',
@@ -76,11 +81,22 @@ const options = [
     label: () => intl.invertIcon(),
     description: () => intl.invertIconDescription(),
   },
+  {
+    // shown with the ranges when the `recently-closed` scope is visible
+    id: 'recentlyClosedCount',
+    def: 10 as number,
+    min: 1,
+    max: 25, // sessions.MAX_SESSION_RESULTS
+    label: () => intl.recentlyClosedCount(),
+    description: () => intl.recentlyClosedCountDescription(),
+  },
 ] as const satisfies OptionSpecTemplate[]
 
 type OptionSpecTemplate = {
   id: string
   def: any
+  min?: number // number options only
+  max?: number // number options only
   label: () => string
   description?: () => string
   requiresPermissions?: chrome.runtime.ManifestPermissions[]
@@ -112,6 +128,10 @@ export function isBooleanOption(option: OptionSpec): option is BooleanOption {
   return typeof option.def === 'boolean'
 }
 
+export function isNumberOption(option: OptionSpec): option is NumberOption {
+  return typeof option.def === 'number'
+}
+
 export function isSubOption(option: OptionSpec): option is SubOption {
   return 'requires' in option
 }
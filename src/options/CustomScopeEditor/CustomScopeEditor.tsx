@@ -0,0 +1,179 @@
+import { useState, useEffect } from 'react'
+
+import { Checkbox } from '../Checkbox/Checkbox'
+import { FilterRuleList } from '../FilterRuleList/FilterRuleList'
+import { TextOption } from '../TextOption/TextOption'
+import { CUSTOM_SCOPE_COMMAND_COUNT, CustomScopeId, CustomScopeDef } from '@/scope'
+import { isValidCustomScopeDef } from '@/custom-scope'
+import { getCustomScopeDefs } from '@/storage'
+import { intl } from '@/intl'
+import { sentenceCase } from '@/util/string'
+import { classy } from '@/util/css'
+
+import classes from './CustomScopeEditor.module.css'
+import editorClasses from '../FormatOptsEditor/FormatOptsEditor.module.css'
+import optionsClasses from '../Options.module.css'
+
+type CustomScopeEditorProps = {
+  initialDef?: CustomScopeDef // stored def, or a new def that is stored on OK
+  error?: string
+  onCancel: () => void
+  onOK: (def: CustomScopeDef) => void
+  onDelete: (scopeId: CustomScopeId) => void
+}
+
+export const CustomScopeEditor = ({
+  initialDef,
+  error,
+  onCancel,
+  onOK,
+  onDelete,
+}: CustomScopeEditorProps) => {
+  const [def, setDef] = useState<CustomScopeDef | undefined>(initialDef)
+  // position among custom scopes, which determines keyboard command binding
+  const [index, setIndex] = useState<number>(-1)
+  const [isNew, setIsNew] = useState<boolean>(false)
+
+  const [confirmDelete, setConfirmDelete] = useState<boolean>(false)
+
+  useEffect(() => {
+    if (initialDef) {
+      getCustomScopeDefs().then((defs) => {
+        const idx = defs.findIndex(({ id }) => id === initialDef.id)
+
+        setIsNew(idx === -1)
+        setIndex(idx === -1 ? defs.length : idx)
+      })
+    }
+  }, [initialDef])
+
+  const isValid = !!def && isValidCustomScopeDef(def)
+
+  useEffect(() => {
+    const keydownHandler = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        onCancel()
+      } else if (e.key === 'Enter') {
+        if (def && isValid && e.target instanceof Element && e.target.tagName === 'INPUT') {
+          onOK(def)
+        }
+      }
+    }
+
+    document.addEventListener('keydown', keydownHandler)
+
+    return () => {
+      document.removeEventListener('keydown', keydownHandler)
+    }
+  }, [onCancel, onOK, def, isValid])
+
+  if (!def) return null
+
+  const content = error ? (
+    <div className={editorClasses.contentMessage}>{error}</div>
+  ) : confirmDelete ? (
+    <div className={editorClasses.contentMessage}>{sentenceCase(intl.confirmDeleteRange())}</div>
+  ) : (
+    <>
+      <TextOption
+        label={intl.name()}
+        value={def.name}
+        maxLength={30}
+        width="200px"
+        autoFocus
+        onChange={(name) => {
+          setDef({ ...def, name })
+        }}
+      />
+      <div className={classes.rules}>
+        <div className={classes.label}>{sentenceCase(intl.rules())}</div>
+        <FilterRuleList
+          rules={def.rules}
+          newRule={{ action: 'include', type: 'domain', value: '' }}
+          onChange={(rules) => {
+            setDef({ ...def, rules })
+          }}
+        />
+      </div>
+      <Checkbox
+        label={sentenceCase(intl.currentWindowOnly())}
+        tip={sentenceCase(intl.currentWindowOnlyDescription())}
+        checked={def.currentWindow}
+        onClick={() => {
+          setDef({ ...def, currentWindow: !def.currentWindow })
+        }}
+      />
+      {index >= 0 && index < CUSTOM_SCOPE_COMMAND_COUNT ? (
+        <div className={classes.shortcut}>{sentenceCase(intl.customRangeShortcut(index + 1))}</div>
+      ) : null}
+      {isNew ? null : (
+        <button
+          className={classy(optionsClasses.primaryAction, optionsClasses.destructiveAction)}
+          onClick={() => setConfirmDelete(true)}
+        >
+          {sentenceCase(intl.deleteRange())}
+        </button>
+      )}
+    </>
+  )
+
+  const buttons = error ? (
+    <>
+      <button
+        className={optionsClasses.primaryAction}
+        onClick={() => onCancel()}
+      >
+        {intl.ok()}
+      </button>
+    </>
+  ) : confirmDelete ? (
+    <>
+      <button
+        className={optionsClasses.primaryAction}
+        onClick={() => onDelete(def.id)}
+      >
+        {sentenceCase(intl.yes())}
+      </button>
+      <button
+        className={optionsClasses.primaryAction}
+        onClick={() => setConfirmDelete(false)}
+      >
+        {sentenceCase(intl.no())}
+      </button>
+    </>
+  ) : (
+    <>
+      <button
+        className={optionsClasses.primaryAction}
+        disabled={!isValid}
+        onClick={() => {
+          onOK(def)
+        }}
+      >
+        {intl.ok()}
+      </button>
+      <button
+        className={optionsClasses.primaryAction}
+        onClick={() => onCancel()}
+      >
+        {sentenceCase(intl.cancel())}
+      </button>
+    </>
+  )
+
+  return (
+    <div
+      className={editorClasses.backdrop}
+      onMouseDown={() => onCancel()}
+    >
+      <div
+        className={classy(editorClasses.FormatOptsEditor, classes.CustomScopeEditor)}
+        onMouseDown={(e) => e.stopPropagation()}
+      >
+        <h1>{def.name || sentenceCase(intl.untitledRange())}</h1>
+        <div className={editorClasses.content}>{content}</div>
+        <div className={editorClasses.buttons}>{buttons}</div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,113 @@
+import {
+  tabFilterActions,
+  tabFilterRuleTypes,
+  getTabFilterRuleType,
+  isValidTabFilterRule,
+  TabFilterRule,
+  TabFilterAction,
+  TabFilterRuleType,
+} from '@/tab-filter'
+import { intl } from '@/intl'
+import { newId } from '@/util/id'
+import { sentenceCase } from '@/util/string'
+import { classy } from '@/util/css'
+
+import classes from './FilterRuleList.module.css'
+
+type FilterRuleListProps = {
+  rules: TabFilterRule[]
+  newRule?: Omit<TabFilterRule, 'id'>
+  onChange: (rules: TabFilterRule[]) => void
+}
+
+// editable list of tab filter rules
+export const FilterRuleList = ({
+  // wrap
+  rules,
+  newRule = { action: 'exclude', type: 'pinned' },
+  onChange,
+}: FilterRuleListProps) => {
+  const updateRule = (index: number, rule: TabFilterRule) => {
+    onChange(rules.map((r, i) => (i === index ? rule : r)))
+  }
+
+  return (
+    <div className={classes.FilterRuleList}>
+      {rules.map((rule, i) => {
+        const ruleType = getTabFilterRuleType(rule.type)
+
+        return (
+          <div
+            key={rule.id}
+            className={classy(classes.rule, {
+              [classes.invalid]: !isValidTabFilterRule(rule),
+            })}
+          >
+            <select
+              className={classes.action}
+              value={rule.action}
+              onChange={({ currentTarget }) => {
+                updateRule(i, { ...rule, action: currentTarget.value as TabFilterAction })
+              }}
+            >
+              {tabFilterActions.map((action) => (
+                <option
+                  key={action}
+                  value={action}
+                >
+                  {sentenceCase(intl[action]())}
+                </option>
+              ))}
+            </select>
+            <select
+              className={classes.type}
+              value={rule.type}
+              onChange={({ currentTarget }) => {
+                updateRule(i, { ...rule, type: currentTarget.value as TabFilterRuleType })
+              }}
+            >
+              {tabFilterRuleTypes.map(({ id, label }) => (
+                <option
+                  key={id}
+                  value={id}
+                >
+                  {sentenceCase(label())}
+                </option>
+              ))}
+            </select>
+            {ruleType.hasValue ? (
+              <input
+                className={classes.value}
+                placeholder={ruleType.placeholder?.()}
+                value={rule.value ?? ''}
+                spellCheck={false}
+                onInput={({ currentTarget }) => {
+                  updateRule(i, { ...rule, value: currentTarget.value })
+                }}
+              />
+            ) : (
+              <span className={classes.value} />
+            )}
+            <button
+              className={classes.remove}
+              title={sentenceCase(intl.removeRule())}
+              onClick={() => {
+                onChange(rules.filter((_, j) => j !== i))
+              }}
+            >
+              ✕
+            </button>
+          </div>
+        )
+      })}
+      <button
+        className={classes.add}
+        onClick={() => {
+          onChange([...rules, { id: newId(), ...newRule }])
+        }}
+      >
+        {intl.addRule()}
+      </button>
+    </div>
+  )
+}
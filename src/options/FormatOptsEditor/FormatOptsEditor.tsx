@@ -14,8 +14,12 @@ import { ContentProps } from './content/interface'
 import { HtmlTable } from './content/HtmlTable'
 import { TitleUrl1Line } from './content/TitleUrl1Line'
 import { Json } from './content/Json'
+import { Markdown } from './content/Markdown'
+import { Csv } from './content/Csv'
 import { Link } from './content/Link'
 import { Custom } from './content/Custom'
+import { RichText } from './content/RichText'
+import { Properties } from './content/Properties'
 
 import classes from './FormatOptsEditor.module.css'
 import optionsClasses from '../Options.module.css'
@@ -25,6 +29,16 @@ const builtinFormatOptsContent = {
   titleUrl1Line: TitleUrl1Line,
   json: Json,
   link: Link,
+  markdown: Markdown,
+  url: RichText,
+  title: RichText,
+  titleUrl2Line: RichText,
+  bbcode: RichText,
+  csv: Csv,
+  ndjson: Properties,
+  yaml: Properties,
+  xml: Properties,
+  toml: Properties,
 } satisfies { [k in BuiltinFormatWithOptsId]: FC<ContentProps<k>> }
 
 type FormatOptsEditorProps<T extends FormatWithOptsId> = {
@@ -0,0 +1,102 @@
+import { useState } from 'react'
+import { Reorder, useDragControls } from 'framer-motion'
+
+import { intl } from '@/intl'
+import { sentenceCase } from '@/util/string'
+
+import { Checkbox } from '@/options/Checkbox/Checkbox'
+
+import classes from './ColumnPicker.module.css'
+import optionsClasses from '../../Options.module.css'
+
+type ColumnPickerProps<T extends string> = {
+  columnIds: readonly T[] // all available columns
+  selectedColumnIds: T[] // in configured order
+  getLabel: (id: T) => string
+  onChange: (selectedColumnIds: T[]) => void
+}
+
+// shared by formats with configurable columns. at least one column must remain selected.
+export const ColumnPicker = <T extends string>({
+  columnIds,
+  selectedColumnIds,
+  getLabel,
+  onChange,
+}: ColumnPickerProps<T>) => {
+  // all columns in display order. selected columns are kept in their configured order ahead of unselected columns.
+  const [orderedColumnIds, setOrderedColumnIds] = useState<T[]>(() => [
+    ...selectedColumnIds,
+    ...columnIds.filter((id) => !selectedColumnIds.includes(id)),
+  ])
+
+  return (
+    <div className={optionsClasses.optsSection}>
+      <div className={optionsClasses.optsSectionHeader}>{sentenceCase(intl.columns())}</div>
+      <Reorder.Group
+        axis="y"
+        className={classes.columns}
+        values={orderedColumnIds}
+        onReorder={(orderedColumnIds) => {
+          setOrderedColumnIds(orderedColumnIds)
+          onChange(orderedColumnIds.filter((id) => selectedColumnIds.includes(id)))
+        }}
+      >
+        {orderedColumnIds.map((id) => {
+          const checked = selectedColumnIds.includes(id)
+
+          return (
+            <Column
+              key={id}
+              id={id}
+              label={getLabel(id)}
+              checked={checked}
+              disabled={checked && selectedColumnIds.length === 1}
+              onClick={() => {
+                onChange(
+                  orderedColumnIds.filter((columnId) =>
+                    columnId === id ? !checked : selectedColumnIds.includes(columnId),
+                  ),
+                )
+              }}
+            />
+          )
+        })}
+      </Reorder.Group>
+      <div className={classes.tip}>{sentenceCase(intl.columnsDescription())}</div>
+    </div>
+  )
+}
+
+type ColumnProps = {
+  id: string
+  label: string
+  checked: boolean
+  disabled: boolean
+  onClick: () => void
+}
+
+const Column = ({ id, label, checked, disabled, onClick }: ColumnProps) => {
+  const dragControls = useDragControls()
+
+  return (
+    <Reorder.Item
+      value={id}
+      className={classes.column}
+      dragListener={false}
+      dragControls={dragControls}
+    >
+      <span
+        className={classes.handle}
+        onPointerDown={(e) => dragControls.start(e)}
+      >
+        ⠿
+      </span>
+      <Checkbox
+        label={label}
+        checked={checked}
+        disabled={disabled}
+        onClick={onClick}
+      />
+    </Reorder.Item>
+  )
+}
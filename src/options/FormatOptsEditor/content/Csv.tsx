@@ -0,0 +1,102 @@
+import { useState } from 'react'
+
+import { intl } from '@/intl'
+import { sentenceCase } from '@/util/string'
+import { csvDelimiters, csvQuotings } from '@/util/csv'
+
+import { csvColumnIds, getCsvColumnHeader } from '@/format'
+import { Checkbox } from '@/options/Checkbox/Checkbox'
+import { MultiOption, Option } from '@/options/MultiOption/MultiOption'
+
+import { ContentProps } from './interface'
+import { RichText } from './RichText'
+import { ColumnPicker } from './ColumnPicker'
+
+// content components receive up-to-date opts and are responsible for reporting opts changes
+
+export const Csv = ({ opts, onChange }: ContentProps<'csv'>) => {
+  const [isMenuOpen, setIsMenuOpen] = useState<boolean>(false)
+
+  const delimiterOptions: Option[] = csvDelimiters.map((delimiter) => ({
+    value: delimiter,
+    label: intl.csvDelimiter(delimiter),
+  }))
+
+  const quotingOptions: Option[] = csvQuotings.map((quoting) => ({
+    value: quoting,
+    label: intl.csvQuoting(quoting),
+  }))
+
+  const menuProps = {
+    onKeyDown: (e: React.KeyboardEvent) => {
+      // allow Escape or Enter to close dropdown without closing dialog
+      if (isMenuOpen) {
+        e.stopPropagation()
+      }
+    },
+    onMenuClose: () => {
+      setIsMenuOpen(false)
+    },
+    onMenuOpen: () => {
+      setIsMenuOpen(true)
+    },
+  }
+
+  return (
+    <>
+      <ColumnPicker
+        columnIds={csvColumnIds}
+        selectedColumnIds={opts.columns}
+        getLabel={getCsvColumnHeader}
+        onChange={(columns) => {
+          onChange({
+            ...opts,
+            columns,
+          })
+        }}
+      />
+      <Checkbox
+        label={sentenceCase(intl.includeHeader())}
+        checked={opts.includeHeader}
+        onClick={() => {
+          onChange({
+            ...opts,
+            includeHeader: !opts.includeHeader,
+          })
+        }}
+      />
+      <MultiOption
+        label={intl.delimiter()}
+        defaultValue={opts.delimiter}
+        options={delimiterOptions}
+        onChange={(option) => {
+          if (!option) return
+
+          onChange({
+            ...opts,
+            delimiter: option.value as typeof opts.delimiter,
+          })
+        }}
+        {...menuProps}
+      />
+      <MultiOption
+        label={intl.quoting()}
+        defaultValue={opts.quoting}
+        options={quotingOptions}
+        onChange={(option) => {
+          if (!option) return
+
+          onChange({
+            ...opts,
+            quoting: option.value as typeof opts.quoting,
+          })
+        }}
+        {...menuProps}
+      />
+      <RichText
+        opts={opts}
+        onChange={onChange}
+      />
+    </>
+  )
+}
@@ -1,30 +1,68 @@
-import { templateFields } from '@/template-field'
+import { useEffect, useState } from 'react'
+
+import { templateFields, escapeModes } from '@/template-field'
 import { customFormat } from '@/format'
-import { getPreviewWindows } from '@/preview'
+import { getPreviewWindows, getPreviewGroups, getPreviewPageMetadata } from '@/preview'
 import { applyTextTransformToWindows } from '@/copy'
+import { hasPageAccessPermission, requestPageAccessPermission } from '@/page-metadata'
 import { intl } from '@/intl'
 import { sentenceCase } from '@/util/string'
 import { classy } from '@/util/css'
+import { isValidLocale, isValidTimeZone } from '@/util/date'
 
 import { TextOption } from '@/options/TextOption/TextOption'
+import { MultiOption, Option } from '@/options/MultiOption/MultiOption'
 
 import { ContentProps } from './interface'
 import { TemplateField } from './TemplateField'
+import { Variables } from './Variables'
 
 import classes from './Custom.module.css'
 import optionsClasses from '../../Options.module.css'
 
+const DATE_OPT_WIDTH = '159px'
+
 // content components receive up-to-date opts and are responsible for reporting opts changes
 
 // todo: add more validation
 
 export const Custom = ({ opts, onChange, onConfirmDelete }: ContentProps<'custom-*'>) => {
-  const previewHtml = applyTextTransformToWindows(
-    getPreviewWindows(),
-    customFormat.transforms(opts),
-    'html',
-    customFormat.label(opts),
-  )
+  const [isMenuOpen, setIsMenuOpen] = useState<boolean>(false)
+  const [hasPageAccess, setHasPageAccess] = useState<boolean>(true)
+
+  useEffect(() => {
+    hasPageAccessPermission().then(setHasPageAccess)
+  }, [])
+
+  const escapeAsOptions: Option[] = escapeModes.map((escapeAs) => ({
+    value: escapeAs,
+    label: intl.escapeMode(escapeAs),
+  }))
+
+  const transforms = customFormat.transforms(opts)
+
+  const [previewHtml, setPreviewHtml] = useState<string>('')
+
+  useEffect(() => {
+    let isCurrent = true
+
+    applyTextTransformToWindows(
+      getPreviewWindows(),
+      customFormat.transforms(opts),
+      'html',
+      customFormat.label(opts),
+      { groups: getPreviewGroups(), getPageMetadata: getPreviewPageMetadata },
+    ).then((html) => {
+      // ignore previews of outdated opts
+      if (isCurrent) {
+        setPreviewHtml(html)
+      }
+    })
+
+    return () => {
+      isCurrent = false
+    }
+  }, [opts])
 
   return (
     <>
@@ -41,6 +79,15 @@ export const Custom = ({ opts, onChange, onConfirmDelete }: ContentProps<'custom
           })
         }}
       />
+      <Variables
+        variables={opts.variables ?? []}
+        onChange={(variables) => {
+          onChange({
+            ...opts,
+            variables,
+          })
+        }}
+      />
       <div className={classes.templateScroll}>
         <div className={classes.template}>
           {templateFields.map(({ id, label, tokens }) => (
@@ -55,6 +102,71 @@ export const Custom = ({ opts, onChange, onConfirmDelete }: ContentProps<'custom
           ))}
         </div>
       </div>
+      {transforms.usesPageMetadata && !hasPageAccess ? (
+        <div className={classes.pageAccess}>
+          {sentenceCase(intl.pageAccessRequired())}
+          <button
+            onClick={async () => {
+              setHasPageAccess(await requestPageAccessPermission())
+            }}
+          >
+            {sentenceCase(intl.allowPageAccess())}
+          </button>
+        </div>
+      ) : null}
+      <div className={classes.dateOpts}>
+        <TextOption
+          label={intl.locale()}
+          value={opts.locale ?? ''}
+          invalid={!!opts.locale && !isValidLocale(opts.locale)}
+          width={DATE_OPT_WIDTH}
+          maxLength={35}
+          onChange={(locale) => {
+            onChange({
+              ...opts,
+              locale,
+            })
+          }}
+        />
+        <TextOption
+          label={intl.timeZone()}
+          value={opts.timeZone ?? ''}
+          invalid={!!opts.timeZone && !isValidTimeZone(opts.timeZone)}
+          width={DATE_OPT_WIDTH}
+          maxLength={40}
+          onChange={(timeZone) => {
+            onChange({
+              ...opts,
+              timeZone,
+            })
+          }}
+        />
+      </div>
+      <MultiOption
+        label={intl.escapeAs()}
+        defaultValue={opts.escapeAs ?? 'none'}
+        options={escapeAsOptions}
+        onChange={(option) => {
+          if (!option) return
+
+          onChange({
+            ...opts,
+            escapeAs: option.value as typeof opts.escapeAs,
+          })
+        }}
+        onKeyDown={(e) => {
+          // allow Escape or Enter to close dropdown without closing dialog
+          if (isMenuOpen) {
+            e.stopPropagation()
+          }
+        }}
+        onMenuClose={() => {
+          setIsMenuOpen(false)
+        }}
+        onMenuOpen={() => {
+          setIsMenuOpen(true)
+        }}
+      />
       {previewHtml ? (
         <div className={classes.previewContainer}>
           <div className={classes.previewScroll}>
@@ -1,23 +1,80 @@
 import { intl } from '@/intl'
 import { sentenceCase } from '@/util/string'
 
+import {
+  MAX_INDENT_SIZE,
+  parseIndent,
+  htmlTableColumnIds,
+  getHtmlTableColumnHeader,
+} from '@/format'
 import { Checkbox } from '@/options/Checkbox/Checkbox'
+import { TextOption } from '@/options/TextOption/TextOption'
 
 import { ContentProps } from './interface'
+import { ColumnPicker } from './ColumnPicker'
 
 // content components receive up-to-date opts and are responsible for reporting opts changes
 
 export const HtmlTable = ({ opts, onChange }: ContentProps<'htmlTable'>) => {
   return (
-    <Checkbox
-      label={sentenceCase(intl.includeHeader())}
-      checked={opts.includeHeader}
-      onClick={() => {
-        onChange({
-          ...opts,
-          includeHeader: !opts.includeHeader,
-        })
-      }}
-    />
+    <>
+      <ColumnPicker
+        columnIds={htmlTableColumnIds}
+        selectedColumnIds={opts.columns}
+        getLabel={getHtmlTableColumnHeader}
+        onChange={(columns) => {
+          onChange({
+            ...opts,
+            columns,
+          })
+        }}
+      />
+      <Checkbox
+        label={sentenceCase(intl.includeHeader())}
+        checked={opts.includeHeader}
+        onClick={() => {
+          onChange({
+            ...opts,
+            includeHeader: !opts.includeHeader,
+          })
+        }}
+      />
+      <Checkbox
+        label={sentenceCase(intl.linkTitles())}
+        checked={opts.linkTitles}
+        onClick={() => {
+          onChange({
+            ...opts,
+            linkTitles: !opts.linkTitles,
+          })
+        }}
+      />
+      <Checkbox
+        label={sentenceCase(intl.inlineStyles())}
+        tip={sentenceCase(intl.inlineStylesDescription())}
+        checked={opts.inlineStyles}
+        onClick={() => {
+          onChange({
+            ...opts,
+            inlineStyles: !opts.inlineStyles,
+          })
+        }}
+      />
+      <TextOption
+        label={intl.indent()}
+        value={opts.indent}
+        invalid={!parseIndent(opts.indent)}
+        type="number"
+        min={1}
+        max={MAX_INDENT_SIZE}
+        width="60px"
+        onChange={(indent) => {
+          onChange({
+            ...opts,
+            indent: `${parseInt(indent, 10) || ''}`, // prevent decimals
+          })
+        }}
+      />
+    </>
   )
 }
@@ -1,12 +1,16 @@
+import { useState } from 'react'
+
 import { intl } from '@/intl'
 import { sentenceCase } from '@/util/string'
-import { addOrRemove } from '@/util/array'
 
-import { MAX_INDENT_SIZE, parseIndent } from '@/format'
+import { MAX_INDENT_SIZE, parseIndent, structuredShapes, windowProperties } from '@/format'
 import { Checkbox } from '@/options/Checkbox/Checkbox'
 import { TextOption } from '@/options/TextOption/TextOption'
+import { MultiOption, Option } from '@/options/MultiOption/MultiOption'
 
 import { ContentProps } from './interface'
+import { RichText } from './RichText'
+import { Properties, PropertyPicker } from './Properties'
 
 import classes from './Json.module.css'
 import optionsClasses from '../../Options.module.css'
@@ -15,39 +19,57 @@ import optionsClasses from '../../Options.module.css'
 
 // todo: consider range input for indent
 
-const availableTabProperties = [
-  // wrap
-  'title',
-  'url',
-  'favIconUrl',
-] as const
-
 export const Json = ({ opts, onChange }: ContentProps<'json'>) => {
+  const [isMenuOpen, setIsMenuOpen] = useState<boolean>(false)
+
+  const shapeOptions: Option[] = structuredShapes.map((shape) => ({
+    value: shape,
+    label: intl.structuredShape(shape),
+  }))
+
   return (
     <>
-      <div className={optionsClasses.optsSection}>
-        <div className={optionsClasses.optsSectionHeader}>{sentenceCase(intl.properties())}</div>
-        <div className={classes.properties}>
-          {availableTabProperties.map((prop) => {
-            const checked = opts.properties.includes(prop)
+      <Properties
+        opts={opts}
+        onChange={onChange}
+      />
+      <PropertyPicker
+        label={intl.windowProperties()}
+        properties={windowProperties}
+        selectedProperties={opts.windowProperties}
+        disabled={opts.shape === 'flat'} // flat output has no window objects
+        onChange={(windowProperties) => {
+          onChange({
+            ...opts,
+            windowProperties,
+          })
+        }}
+      />
+      <MultiOption
+        label={intl.shape()}
+        defaultValue={opts.shape}
+        options={shapeOptions}
+        onChange={(option) => {
+          if (!option) return
 
-            return (
-              <Checkbox
-                key={prop}
-                label={prop}
-                checked={checked}
-                disabled={checked && opts.properties.length === 1}
-                onClick={() => {
-                  onChange({
-                    ...opts,
-                    properties: addOrRemove(opts.properties, prop),
-                  })
-                }}
-              />
-            )
-          })}
-        </div>
-      </div>
+          onChange({
+            ...opts,
+            shape: option.value as typeof opts.shape,
+          })
+        }}
+        onKeyDown={(e) => {
+          // allow Escape or Enter to close dropdown without closing dialog
+          if (isMenuOpen) {
+            e.stopPropagation()
+          }
+        }}
+        onMenuClose={() => {
+          setIsMenuOpen(false)
+        }}
+        onMenuOpen={() => {
+          setIsMenuOpen(true)
+        }}
+      />
       <div className={optionsClasses.optsSection}>
         <div className={optionsClasses.optsSectionHeader}>{sentenceCase(intl.layout())}</div>
         <div className={classes.layout}>
@@ -80,6 +102,10 @@ export const Json = ({ opts, onChange }: ContentProps<'json'>) => {
           />
         </div>
       </div>
+      <RichText
+        opts={opts}
+        onChange={onChange}
+      />
     </>
   )
 }
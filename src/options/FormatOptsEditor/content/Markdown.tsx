@@ -0,0 +1,133 @@
+import { useState } from 'react'
+
+import { intl } from '@/intl'
+import { markdownFlavors, markdownListStyles, MarkdownFlavor } from '@/util/markdown'
+
+import { MultiOption, Option } from '@/options/MultiOption/MultiOption'
+
+import { ContentProps } from './interface'
+import { RichText } from './RichText'
+
+// content components receive up-to-date opts and are responsible for reporting opts changes
+
+const flavorLabels: { [k in MarkdownFlavor]: string } = {
+  commonmark: 'CommonMark',
+  gfm: 'GitHub Flavored Markdown',
+  obsidian: 'Obsidian',
+  slack: 'Slack mrkdwn',
+}
+
+const flavorOptions: Option[] = markdownFlavors.map((flavor) => ({
+  value: flavor,
+  label: flavorLabels[flavor],
+}))
+
+const headingLevelOptions: Option[] = [1, 2, 3, 4, 5, 6].map((level) => ({
+  value: `${level}`,
+  label: `H${level}`,
+}))
+
+export const Markdown = ({ opts, onChange }: ContentProps<'markdown'>) => {
+  const [isMenuOpen, setIsMenuOpen] = useState<boolean>(false)
+
+  const listStyleOptions: Option[] = markdownListStyles.map((style) => ({
+    value: style,
+    label: intl.markdownListStyle(style),
+  }))
+
+  const linkStyleOptions: Option[] = [
+    {
+      value: 'inline',
+      label: intl.inlineLinks(),
+    },
+    {
+      value: 'reference',
+      label: intl.referenceLinks(),
+    },
+  ]
+
+  const isSlack = opts.flavor === 'slack'
+
+  const menuProps = {
+    onKeyDown: (e: React.KeyboardEvent) => {
+      // allow Escape or Enter to close dropdown without closing dialog
+      if (isMenuOpen) {
+        e.stopPropagation()
+      }
+    },
+    onMenuClose: () => {
+      setIsMenuOpen(false)
+    },
+    onMenuOpen: () => {
+      setIsMenuOpen(true)
+    },
+  }
+
+  return (
+    <>
+      <MultiOption
+        autoFocus
+        label={intl.flavor()}
+        defaultValue={opts.flavor}
+        options={flavorOptions}
+        onChange={(option) => {
+          if (!option) return
+
+          onChange({
+            ...opts,
+            flavor: option.value as typeof opts.flavor,
+          })
+        }}
+        {...menuProps}
+      />
+      <MultiOption
+        label={intl.listStyle()}
+        defaultValue={opts.listStyle}
+        options={listStyleOptions}
+        onChange={(option) => {
+          if (!option) return
+
+          onChange({
+            ...opts,
+            listStyle: option.value as typeof opts.listStyle,
+          })
+        }}
+        {...menuProps}
+      />
+      <MultiOption
+        label={intl.windowHeadingLevel()}
+        defaultValue={`${opts.headingLevel}`}
+        options={headingLevelOptions}
+        disabled={isSlack} // slack mrkdwn does not support headings
+        onChange={(option) => {
+          if (!option) return
+
+          onChange({
+            ...opts,
+            headingLevel: parseInt(option.value, 10),
+          })
+        }}
+        {...menuProps}
+      />
+      <MultiOption
+        label={intl.linkStyle()}
+        defaultValue={opts.linkStyle}
+        options={linkStyleOptions}
+        disabled={isSlack} // slack mrkdwn does not support reference-style links
+        onChange={(option) => {
+          if (!option) return
+
+          onChange({
+            ...opts,
+            linkStyle: option.value as typeof opts.linkStyle,
+          })
+        }}
+        {...menuProps}
+      />
+      <RichText
+        opts={opts}
+        onChange={onChange}
+      />
+    </>
+  )
+}
@@ -0,0 +1,76 @@
+import { intl } from '@/intl'
+import { sentenceCase } from '@/util/string'
+import { addOrRemove } from '@/util/array'
+
+import { tabProperties, TabProperty } from '@/format'
+import { Checkbox } from '@/options/Checkbox/Checkbox'
+
+import classes from './Properties.module.css'
+import optionsClasses from '../../Options.module.css'
+
+// content components receive up-to-date opts and are responsible for reporting opts changes
+
+// shared by structured formats (json, yaml, etc). also used as the sole content of formats whose only opt is properties.
+export const Properties = <T extends { properties: TabProperty[] }>({
+  opts,
+  onChange,
+}: {
+  opts: T
+  onChange: (opts: T) => void
+}) => {
+  return (
+    <PropertyPicker
+      label={intl.properties()}
+      properties={tabProperties}
+      selectedProperties={opts.properties}
+      required
+      onChange={(properties) => {
+        onChange({
+          ...opts,
+          properties,
+        })
+      }}
+    />
+  )
+}
+
+type PropertyPickerProps<T extends string> = {
+  label: string
+  properties: readonly T[]
+  selectedProperties: T[]
+  required?: boolean // at least one property must remain selected
+  disabled?: boolean
+  onChange: (selectedProperties: T[]) => void
+}
+
+export const PropertyPicker = <T extends string>({
+  label,
+  properties,
+  selectedProperties,
+  required,
+  disabled,
+  onChange,
+}: PropertyPickerProps<T>) => {
+  return (
+    <div className={optionsClasses.optsSection}>
+      <div className={optionsClasses.optsSectionHeader}>{sentenceCase(label)}</div>
+      <div className={classes.properties}>
+        {properties.map((prop) => {
+          const checked = selectedProperties.includes(prop)
+
+          return (
+            <Checkbox
+              key={prop}
+              label={prop}
+              checked={checked}
+              disabled={disabled || (required && checked && selectedProperties.length === 1)}
+              onClick={() => {
+                onChange(addOrRemove(selectedProperties, prop))
+              }}
+            />
+          )
+        })}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,29 @@
+import { intl } from '@/intl'
+import { sentenceCase } from '@/util/string'
+
+import { Checkbox } from '@/options/Checkbox/Checkbox'
+
+// content components receive up-to-date opts and are responsible for reporting opts changes
+
+// shared by formats whose only opt is richText. also embedded in editors of formats with additional opts.
+export const RichText = <T extends { richText: boolean }>({
+  opts,
+  onChange,
+}: {
+  opts: T
+  onChange: (opts: T) => void
+}) => {
+  return (
+    <Checkbox
+      label={sentenceCase(intl.richText())}
+      tip={sentenceCase(intl.richTextDescription())}
+      checked={opts.richText}
+      onClick={() => {
+        onChange({
+          ...opts,
+          richText: !opts.richText,
+        })
+      }}
+    />
+  )
+}
@@ -1,8 +1,13 @@
-import { TemplateFieldId, Token } from '@/template-field'
+import { getVariableTokens, TemplateFieldId, Token } from '@/template-field'
+import { lintTemplate, TemplateIssue } from '@/template-lint'
 import { FormatOpts, CustomFormatId } from '@/format'
+import { sentenceCase } from '@/util/string'
+import { classy } from '@/util/css'
 
 import { TextOption } from '@/options/TextOption/TextOption'
 
+import classes from './TemplateField.module.css'
+
 const TEMPLATE_FIELD_WIDTH = '265px'
 
 type TemplateFieldProps = {
@@ -21,21 +26,70 @@ export const TemplateField = ({
   opts,
   onChange,
 }: TemplateFieldProps) => {
+  const value = opts.template[id] ?? '' // fields added after a format was created are absent
+  const issues = lintTemplate(id, value, opts.variables)
+
   return (
-    <TextOption
-      label={label}
-      value={opts.template[id]}
-      width={TEMPLATE_FIELD_WIDTH}
-      tokens={tokens}
-      onChange={(value) => {
-        onChange({
-          ...opts,
-          template: {
-            ...opts.template,
-            [id]: value,
-          },
-        })
-      }}
-    />
+    <div className={classes.TemplateField}>
+      <TextOption
+        label={label}
+        value={value}
+        invalid={issues.some(({ severity }) => severity === 'error')}
+        width={TEMPLATE_FIELD_WIDTH}
+        tokens={[...tokens, ...getVariableTokens(opts.variables ?? [])]}
+        onChange={(value) => {
+          onChange({
+            ...opts,
+            template: {
+              ...opts.template,
+              [id]: value,
+            },
+          })
+        }}
+      />
+      {issues.length ? (
+        <div
+          className={classes.issues}
+          style={{ width: TEMPLATE_FIELD_WIDTH }}
+        >
+          <div className={classes.highlightedTemplate}>{getHighlightedTemplate(value, issues)}</div>
+          {issues.map(({ start, severity, message }) => (
+            <div
+              key={`${start}-${message}`}
+              className={classy(classes.message, classes[severity])}
+            >
+              {sentenceCase(message)}
+            </div>
+          ))}
+        </div>
+      ) : null}
+    </div>
   )
 }
+
+// template text with flagged spans marked. spans overlapping a previous span are not marked again.
+function getHighlightedTemplate(template: string, issues: TemplateIssue[]) {
+  const nodes: (string | JSX.Element)[] = []
+  let position = 0
+
+  for (const { start, end, severity, message } of issues) {
+    if (start < position) continue
+
+    nodes.push(
+      template.slice(position, start),
+      <mark
+        key={start}
+        className={classes[severity]}
+        title={sentenceCase(message)}
+      >
+        {template.slice(start, end)}
+      </mark>,
+    )
+
+    position = end
+  }
+
+  nodes.push(template.slice(position))
+
+  return nodes
+}
@@ -3,6 +3,7 @@ import { intl } from '@/intl'
 import { TextOption } from '@/options/TextOption/TextOption'
 
 import { ContentProps } from './interface'
+import { RichText } from './RichText'
 
 // content components receive up-to-date opts and are responsible for reporting opts changes
 
@@ -10,18 +11,24 @@ import { ContentProps } from './interface'
 
 export const TitleUrl1Line = ({ opts, onChange }: ContentProps<'titleUrl1Line'>) => {
   return (
-    <TextOption
-      label={intl.separator()}
-      value={opts.separator}
-      width="60px"
-      maxLength={6}
-      autoFocus
-      onChange={(separator) => {
-        onChange({
-          ...opts,
-          separator,
-        })
-      }}
-    />
+    <>
+      <TextOption
+        label={intl.separator()}
+        value={opts.separator}
+        width="60px"
+        maxLength={6}
+        autoFocus
+        onChange={(separator) => {
+          onChange({
+            ...opts,
+            separator,
+          })
+        }}
+      />
+      <RichText
+        opts={opts}
+        onChange={onChange}
+      />
+    </>
   )
 }
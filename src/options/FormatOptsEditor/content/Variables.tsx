@@ -0,0 +1,72 @@
+import { isValidVariableName, TemplateVariable } from '@/template-field'
+import { intl } from '@/intl'
+import { sentenceCase } from '@/util/string'
+import { classy } from '@/util/css'
+
+import classes from './Variables.module.css'
+
+type VariablesProps = {
+  variables: TemplateVariable[]
+  onChange: (variables: TemplateVariable[]) => void
+}
+
+// named constants of a custom format, inserted into templates with `[@name]`
+export const Variables = ({ variables, onChange }: VariablesProps) => {
+  const updateVariable = (index: number, variable: TemplateVariable) => {
+    onChange(variables.map((v, i) => (i === index ? variable : v)))
+  }
+
+  return (
+    <div className={classes.Variables}>
+      <div className={classes.label}>{sentenceCase(intl.variables())}</div>
+      {variables.map((variable, i) => {
+        const invalid =
+          !isValidVariableName(variable.name) ||
+          variables.findIndex(({ name }) => name === variable.name) !== i
+
+        return (
+          <div
+            key={i}
+            className={classy(classes.variable, { [classes.invalid]: invalid })}
+          >
+            <span className={classes.prefix}>@</span>
+            <input
+              className={classes.name}
+              placeholder={intl.name()}
+              maxLength={30}
+              value={variable.name}
+              onInput={({ currentTarget }) => {
+                updateVariable(i, { ...variable, name: currentTarget.value })
+              }}
+            />
+            <input
+              className={classes.value}
+              placeholder={intl.value()}
+              value={variable.value}
+              onInput={({ currentTarget }) => {
+                updateVariable(i, { ...variable, value: currentTarget.value })
+              }}
+            />
+            <button
+              className={classes.remove}
+              title={sentenceCase(intl.removeVariable())}
+              onClick={() => {
+                onChange(variables.filter((_, j) => j !== i))
+              }}
+            >
+              ✕
+            </button>
+          </div>
+        )
+      })}
+      <button
+        className={classes.add}
+        onClick={() => {
+          onChange([...variables, { name: '', value: '' }])
+        }}
+      >
+        {intl.addVariable()}
+      </button>
+    </div>
+  )
+}
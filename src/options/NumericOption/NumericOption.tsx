@@ -0,0 +1,69 @@
+import { useState, useEffect } from 'react'
+
+import { TextOption } from '../TextOption/TextOption'
+import { getOption, NumberOption, NumberOptionId } from '@/options'
+import { setOptionValue, makeStorageChangeHandler } from '@/storage'
+
+type NumericOptionProps = {
+  id: NumberOptionId
+}
+
+// todo: consider useSyncExternalStore instead of useState, useEffect (possible because storage api has snapshot and subscription features)
+export const NumericOption = ({ id }: NumericOptionProps) => {
+  const [option, setOption] = useState<NumberOption | null>(null)
+  // input value, which may be invalid while editing. only valid values are saved.
+  const [value, setValue] = useState<string>('')
+
+  useEffect(() => {
+    const refresh = () =>
+      getOption(id).then((option) => {
+        setOption(option)
+        setValue(`${option.value}`)
+      })
+
+    refresh()
+
+    const handleStorageChanged = makeStorageChangeHandler((changes) => {
+      if (changes.options) {
+        refresh()
+      }
+    })
+
+    chrome.storage.onChanged.addListener(handleStorageChanged)
+
+    return () => {
+      chrome.storage.onChanged.removeListener(handleStorageChanged)
+    }
+  }, [id])
+
+  if (!option) return null
+
+  const parse = (value: string) => {
+    const num = Number(value)
+
+    return Number.isInteger(num) && num >= option.min && num <= option.max // wrap
+      ? num
+      : undefined
+  }
+
+  return (
+    <TextOption
+      label={option.label()}
+      value={value}
+      invalid={parse(value) === undefined}
+      type="number"
+      min={option.min}
+      max={option.max}
+      width="60px"
+      onChange={(value) => {
+        setValue(value)
+
+        const num = parse(value)
+
+        if (num !== undefined) {
+          setOptionValue(id, num)
+        }
+      }}
+    />
+  )
+}
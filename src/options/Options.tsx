@@ -3,9 +3,12 @@ import { Reorder } from 'framer-motion'
 
 import { NavBarItem } from './NavBarItem/NavBarItem'
 import { BinaryOption } from './BinaryOption/BinaryOption'
+import { NumericOption } from './NumericOption/NumericOption'
 import { ScopeTile } from './ScopeTile/ScopeTile'
+import { TabFilterRules } from './TabFilterRules/TabFilterRules'
 import { FormatConfig } from './FormatConfig/FormatConfig'
 import { FormatOptsEditor } from './FormatOptsEditor/FormatOptsEditor'
+import { CustomScopeEditor } from './CustomScopeEditor/CustomScopeEditor'
 import { OptionTip } from './OptionTip/OptionTip'
 import { Logo } from '@/Logo'
 import { InfoIcon } from '@/icons/InfoIcon'
@@ -16,10 +19,11 @@ import { KeyboardIcon } from '@/icons/KeyboardIcon'
 import { PlusIcon } from '@/icons/PlusIcon'
 import { topLevelBooleanOptionIds } from '@/options'
 import { scopeOptionTips, formatOptionTips } from '@/option-tips'
-import { scopes, Scope } from '@/scope'
+import { isCustomScopeId, makeCustomScopeDef, Scope, CustomScopeId, CustomScopeDef } from '@/scope'
 import { MIN_VISIBLE_FORMAT_COUNT, isCustomFormatId, FormatWithOptsId } from '@/format'
 import { getConfiguredFormats, ConfiguredFormat } from '@/configured-format'
 import {
+  getAllScopes,
   getVisibleScopes,
   setOrderedFormatIds,
   toggleVisibleFormatId,
@@ -28,6 +32,10 @@ import {
   setFormatOpts,
   removeCustomFormat,
   MinVisibleFormatExceededError,
+  getCustomScopeDef,
+  setCustomScopeDef,
+  removeCustomScope,
+  MinVisibleScopeExceededError,
   getHiddenOptionTipIds,
   hideOptionTip,
 } from '@/storage'
@@ -47,7 +55,10 @@ declare module 'react' {
 
 // todo: consider useSyncExternalStore instead of useState, useEffect (possible because storage api has snapshot and subscription features)
 export const Options = () => {
+  const [allScopes, setAllScopes] = useState<Scope[]>([])
   const [visibleScopes, setVisibleScopes] = useState<Scope[]>([])
+  // custom scope being edited. new custom scopes are stored on OK.
+  const [editScopeDef, setEditScopeDef] = useState<CustomScopeDef>()
 
   const [configuredFormats, setConfiguredFormats] = useState<ConfiguredFormat[]>([])
   // formatId associated with format opts being edited
@@ -76,6 +87,7 @@ export const Options = () => {
   }, [])
 
   const refreshVisibleScopes = useCallback(() => {
+    getAllScopes().then(setAllScopes)
     getVisibleScopes().then(setVisibleScopes)
   }, [])
 
@@ -109,13 +121,35 @@ export const Options = () => {
 
   const isMinVisibleFormatCount = visibleFormats.length <= MIN_VISIBLE_FORMAT_COUNT
 
-  const inert = optsEditFormatId ? 'true' : undefined //  todo: update to boolean after this bug is fixed: https://github.com/facebook/react/pull/24730
+  const inert = optsEditFormatId || editScopeDef ? 'true' : undefined //  todo: update to boolean after this bug is fixed: https://github.com/facebook/react/pull/24730
 
   const closeFormatOptsEditor = () => {
     setOptsEditFormatId(undefined)
     setEditError('')
   }
 
+  const closeCustomScopeEditor = () => {
+    setEditScopeDef(undefined)
+    setEditError('')
+  }
+
+  const deleteScope = async (scopeId: CustomScopeId) => {
+    try {
+      await removeCustomScope(scopeId)
+      closeCustomScopeEditor()
+    } catch (ex) {
+      console.error(ex)
+
+      setEditError(
+        sentenceCase(
+          ex instanceof MinVisibleScopeExceededError
+            ? intl.minVisibleScopeDeleteError()
+            : intl.genericScopeDeleteError(),
+        ),
+      )
+    }
+  }
+
   const deleteFormat = async (formatId: FormatWithOptsId) => {
     // use type CustomFormatId?
     try {
@@ -199,6 +233,13 @@ export const Options = () => {
           {sentenceCase(intl.editKeyboardShortcuts())}
         </button>
       </div>
+      <div
+        className={classes.section}
+        inert={inert}
+      >
+        <h4>{intl.tabFilter()}</h4>
+        <TabFilterRules />
+      </div>
       <div
         className={classes.section}
         inert={inert}
@@ -219,14 +260,33 @@ export const Options = () => {
           </div>
         ) : null}
         <div className={classes.scopes}>
-          {scopes.map((scope) => (
+          {allScopes.map((scope) => (
             <ScopeTile
               key={scope.id}
               scope={scope}
               visibleScopes={visibleScopes}
+              onOptsClick={
+                isCustomScopeId(scope.id)
+                  ? async () => setEditScopeDef(await getCustomScopeDef(scope.id as CustomScopeId))
+                  : undefined
+              }
             />
           ))}
         </div>
+        {visibleScopes.some(({ id }) => id === 'recently-closed') ? (
+          <div className={classes.scopeOpts}>
+            <NumericOption id="recentlyClosedCount" />
+          </div>
+        ) : null}
+        <button
+          className={classy(classes.primaryAction, classes.addRange)}
+          onClick={() => {
+            setEditScopeDef(makeCustomScopeDef())
+          }}
+        >
+          <PlusIcon />
+          {sentenceCase(intl.addRange())}
+        </button>
       </div>
       <div
         className={classes.section}
@@ -292,6 +352,21 @@ export const Options = () => {
           deleteFormat(formatId)
         }}
       />
+      <CustomScopeEditor
+        key={editScopeDef?.id} // force remount to clear confirmDelete
+        error={editError}
+        initialDef={editScopeDef}
+        onCancel={() => {
+          closeCustomScopeEditor()
+        }}
+        onOK={(def) => {
+          setCustomScopeDef(def)
+          closeCustomScopeEditor()
+        }}
+        onDelete={(scopeId) => {
+          deleteScope(scopeId)
+        }}
+      />
     </main>
   )
 }
@@ -1,4 +1,4 @@
-import { MIN_VISIBLE_SCOPE_COUNT, Scope, ScopeId } from '@/scope'
+import { MIN_VISIBLE_SCOPE_COUNT, getRequiredPermissions, Scope, ScopeId } from '@/scope'
 import { toggleVisibleScopeId } from '@/storage'
 import { intl } from '@/intl'
 import { sentenceCase } from '@/util/string'
@@ -8,17 +8,35 @@ import { Tile } from '../Tile/Tile'
 type ScopeTileProps = {
   scope: Scope
   visibleScopes: Scope[]
+  onOptsClick?: (id: ScopeId) => void
 }
 
 export const ScopeTile = ({
   // wrap
   scope,
   visibleScopes,
+  onOptsClick,
 }: ScopeTileProps) => {
   const visible = visibleScopes.some(({ id }) => id === scope.id)
   const isMinVisibleScopeCount = visibleScopes.length <= MIN_VISIBLE_SCOPE_COUNT
   const defaultScope = visibleScopes[0]
 
+  const handleClick = async () => {
+    const permissions = getRequiredPermissions(scope)
+
+    if (permissions.length) {
+      if (visible) {
+        await chrome.permissions.remove({ permissions })
+      } else {
+        const granted = await chrome.permissions.request({ permissions })
+
+        if (!granted) return
+      }
+    }
+
+    toggleVisibleScopeId(scope.id)
+  }
+
   return (
     <Tile<ScopeId>
       id={scope.id}
@@ -33,7 +51,8 @@ export const ScopeTile = ({
       tip={sentenceCase('description' in scope ? scope.description() : '')}
       checked={visible}
       disabled={visible && isMinVisibleScopeCount}
-      onClick={toggleVisibleScopeId}
+      onClick={handleClick}
+      onOptsClick={onOptsClick}
     />
   )
 }
@@ -0,0 +1,59 @@
+import { useState, useEffect } from 'react'
+
+import { Checkbox } from '../Checkbox/Checkbox'
+import { FilterRuleList } from '../FilterRuleList/FilterRuleList'
+import { TabFilterConfig } from '@/tab-filter'
+import { getTabFilterConfig, setTabFilterConfig, makeStorageChangeHandler } from '@/storage'
+import { intl } from '@/intl'
+import { sentenceCase } from '@/util/string'
+
+import classes from './TabFilterRules.module.css'
+
+// todo: consider useSyncExternalStore instead of useState, useEffect (possible because storage api has snapshot and subscription features)
+export const TabFilterRules = () => {
+  const [config, setConfig] = useState<TabFilterConfig | null>(null)
+
+  useEffect(() => {
+    getTabFilterConfig().then(setConfig)
+  }, [])
+
+  useEffect(() => {
+    const handleStorageChanged = makeStorageChangeHandler((changes) => {
+      if (changes.tabFilter) {
+        getTabFilterConfig().then(setConfig)
+      }
+    })
+
+    chrome.storage.onChanged.addListener(handleStorageChanged)
+
+    return () => {
+      chrome.storage.onChanged.removeListener(handleStorageChanged)
+    }
+  }, [])
+
+  if (!config) return null
+
+  const updateConfig = (config: TabFilterConfig) => {
+    setConfig(config)
+    setTabFilterConfig(config)
+  }
+
+  return (
+    <div className={classes.TabFilterRules}>
+      <FilterRuleList
+        rules={config.rules}
+        onChange={(rules) => {
+          updateConfig({ ...config, rules })
+        }}
+      />
+      <Checkbox
+        label={sentenceCase(intl.applyToSelectedTabs())}
+        tip={sentenceCase(intl.applyToSelectedTabsDescription())}
+        checked={config.applyToHighlightedTabs}
+        onClick={() => {
+          updateConfig({ ...config, applyToHighlightedTabs: !config.applyToHighlightedTabs })
+        }}
+      />
+    </div>
+  )
+}
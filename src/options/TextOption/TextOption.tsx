@@ -1,6 +1,7 @@
 import { useState, useEffect, useRef, HTMLInputTypeAttribute } from 'react'
 
-import { makeTokenRegExp, Token } from '@/template-field'
+import { findToken, Token } from '@/template-field'
+import { getConditionTag, tokenizeTemplate } from '@/template'
 import { sentenceCase } from '@/util/string'
 import { insertInputText } from '@/util/dom'
 import { classy } from '@/util/css'
@@ -92,7 +93,7 @@ export const TextOption = ({
           >
             <span className={classes.insert}>{`${sentenceCase(intl.insert())}:`}</span>
             {(showAllTokens ? tokens : tokens.slice(0, MAX_COLLAPSED_TOKENS)).map(
-              ({ id, label, token }) => (
+              ({ id, label, token, insert = token }) => (
                 <button
                   key={id}
                   className={classes.token}
@@ -116,10 +117,10 @@ export const TextOption = ({
 
                     if (inputSelectionOverlapsToken === 'full') {
                       // replace token
-                      onChange(insertInputText(input, token, 1))
+                      onChange(insertInputText(input, insert, 1))
                     } else if (!inputSelectionOverlapsToken) {
                       // insert token
-                      onChange(insertInputText(input, `[${token}]`))
+                      onChange(insertInputText(input, `[${insert}]`))
                     }
                   }}
                 >
@@ -150,34 +151,20 @@ function selectionOverlapsToken(
   selectionEnd: number,
   tokens: Token[],
 ) {
-  // swap token delimiter brackets to facilitate counting. we know \n will not be included in the value since custom fields are single line.
-  const bracketSwap = '\n'
-  const bracketSwapRegExp = new RegExp(bracketSwap, 'g')
-
-  const workingValue = value.replace(makeTokenRegExp(tokens), `${bracketSwap}$1${bracketSwap}`)
-
-  const beforeSelection = workingValue.slice(0, selectionStart)
-  const beforeSelectionBracketCount = (beforeSelection.match(bracketSwapRegExp) ?? []).length
-  const isSelectionStartInsideOfToken = !!(beforeSelectionBracketCount % 2)
-
-  if (isSelectionStartInsideOfToken) {
-    if (
-      workingValue[selectionStart - 1] === bracketSwap &&
-      workingValue[selectionEnd] === bracketSwap
-    ) {
-      const selection = workingValue.slice(selectionStart, selectionEnd)
-
-      if (!selection.includes(bracketSwap)) {
-        return 'full'
-      }
+  const isInsideOfToken = (position: number, { start, end }: { start: number; end: number }) =>
+    position > start && position < end
+
+  for (const node of tokenizeTemplate(value)) {
+    if (node.type !== 'token' || !(findToken(tokens, node) || getConditionTag(node))) continue
+
+    if (selectionStart === node.start + 1 && selectionEnd === node.end - 1) {
+      return 'full'
     }
 
-    return true
+    if (isInsideOfToken(selectionStart, node) || isInsideOfToken(selectionEnd, node)) {
+      return true
+    }
   }
 
-  const afterSelection = workingValue.slice(selectionEnd)
-  const afterSelectionBracketCount = (afterSelection.match(bracketSwapRegExp) ?? []).length
-  const isSelectionEndInsideOfToken = !!(afterSelectionBracketCount % 2)
-
-  return isSelectionEndInsideOfToken
+  return false
 }
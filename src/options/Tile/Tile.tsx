@@ -1,3 +1,4 @@
+import { OptionIcon } from '@/icons/OptionIcon'
 import { Checkbox } from '../Checkbox/Checkbox'
 import { classy } from '@/util/css'
 
@@ -11,6 +12,7 @@ type TileProps<T extends string> = {
   checked?: boolean
   disabled?: boolean
   onClick?: (id: T) => void
+  onOptsClick?: (id: T) => void
 }
 
 export function Tile<T extends string>({
@@ -21,6 +23,7 @@ export function Tile<T extends string>({
   checked,
   disabled,
   onClick,
+  onOptsClick,
 }: TileProps<T>) {
   const textClassNames = classy(classes.text, {
     [classes.unchecked]: !checked,
@@ -48,7 +51,26 @@ export function Tile<T extends string>({
           <span>{label}</span>
           {description ? <span className={classes.description}>{description}</span> : null}
         </span>
-        <span className={classy(classes.side, classes.right)}></span>
+        <span
+          className={classy(classes.side, classes.right)}
+          onClick={
+            onOptsClick
+              ? (e) => {
+                  e.stopPropagation()
+                }
+              : undefined
+          }
+        >
+          {onOptsClick ? (
+            <button
+              onClick={() => {
+                onOptsClick(id)
+              }}
+            >
+              <OptionIcon />
+            </button>
+          ) : null}
+        </span>
       </div>
       {tip ? <div className={classes.tip}>{tip}</div> : null}
     </div>
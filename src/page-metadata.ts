@@ -0,0 +1,149 @@
+import { log } from '@/util/log'
+
+// page metadata read from tab content at copy time for custom format page tokens, eg `[description]`
+// - metadata is read while transforming, only for formats that use page tokens, and each page is read at most once per copy
+// - requires the optional `scripting` permission and host access, which are requested together from the custom format editor
+// - metadata is unavailable for pages that cannot be scripted (eg browser pages and the web store), for discarded tabs, and for pages that do not respond in time. page tokens are empty for these tabs.
+
+export type PageMetadata = {
+  description?: string
+  og: Record<string, string> // open graph properties without the `og:` prefix, eg `title` for `og:title`
+  canonical?: string
+  author?: string
+  published?: string
+  selection?: string
+  h1?: string
+}
+
+const PAGE_ACCESS_PERMISSIONS: chrome.permissions.Permissions = {
+  permissions: ['scripting'],
+  origins: ['<all_urls>'],
+}
+
+const PAGE_METADATA_TIMEOUT_MS = 1000 // per tab
+
+export function hasPageAccessPermission() {
+  return chrome.permissions.contains(PAGE_ACCESS_PERMISSIONS)
+}
+
+// must be called in response to a user gesture
+export function requestPageAccessPermission() {
+  return chrome.permissions.request(PAGE_ACCESS_PERMISSIONS)
+}
+
+// returns a function that reads the metadata of a tab's page. it resolves to undefined if metadata is unavailable.
+// - reads are cached by tab id, so the text and html representations of a copy share them
+export function makePageMetadataResolver() {
+  const cache = new Map<number, Promise<PageMetadata | undefined>>()
+  let hasAccess: Promise<boolean> | undefined
+
+  return async ({ id, discarded }: chrome.tabs.Tab) => {
+    if (id === undefined || id === chrome.tabs.TAB_ID_NONE || discarded) return
+
+    hasAccess ??= getHasPageAccess()
+
+    if (!(await hasAccess)) return
+
+    if (!cache.has(id)) {
+      cache.set(id, getTabPageMetadata(id))
+    }
+
+    return cache.get(id)
+  }
+}
+
+async function getHasPageAccess() {
+  if (!chrome.scripting || !(await hasPageAccessPermission())) {
+    log('page access not granted. page tokens will be empty.')
+    return false
+  }
+
+  return true
+}
+
+async function getTabPageMetadata(tabId: number) {
+  try {
+    const [result] = await withTimeout(
+      chrome.scripting.executeScript({
+        target: { tabId },
+        func: extractPageMetadata,
+      }),
+      PAGE_METADATA_TIMEOUT_MS,
+    )
+
+    return result?.result as PageMetadata | undefined
+  } catch (ex) {
+    console.warn(`unable to read page metadata of tab ${tabId}`, ex)
+  }
+}
+
+async function withTimeout<T>(promise: Promise<T>, ms: number) {
+  let timer: ReturnType<typeof setTimeout> | undefined
+
+  try {
+    return await Promise.race([
+      promise,
+      new Promise<never>((_, reject) => {
+        timer = setTimeout(() => reject(new Error(`timed out after ${ms}ms`)), ms)
+      }),
+    ])
+  } finally {
+    clearTimeout(timer)
+  }
+}
+
+// runs in the page, so it must be self-contained
+function extractPageMetadata(): PageMetadata {
+  const normalize = (text?: string | null) => text?.replace(/\s+/g, ' ').trim() || undefined
+
+  const getMeta = (...names: string[]) => {
+    for (const name of names) {
+      const content = document
+        .querySelector(`meta[name="${name}" i], meta[property="${name}" i]`)
+        ?.getAttribute('content')
+
+      if (normalize(content)) return normalize(content)
+    }
+  }
+
+  // json-ld (https://schema.org) is a common source of authors and publish dates
+  const getLinkedData = (key: 'author' | 'datePublished') => {
+    for (const script of document.querySelectorAll('script[type="application/ld+json"]')) {
+      try {
+        const data = JSON.parse(script.textContent ?? '')
+
+        for (const item of [data, ...(data['@graph'] ?? [])].flat()) {
+          const value = item?.[key]
+          const text = [value].flat().map((v) => (typeof v === 'string' ? v : v?.name))[0]
+
+          if (normalize(text)) return normalize(text)
+        }
+      } catch {
+        // ignore malformed json-ld
+      }
+    }
+  }
+
+  const og: Record<string, string> = {}
+
+  for (const meta of document.querySelectorAll('meta[property^="og:" i]')) {
+    const property = meta.getAttribute('property')!.slice(3).toLowerCase()
+    const content = normalize(meta.getAttribute('content'))
+
+    if (content && !(property in og)) {
+      og[property] = content
+    }
+  }
+
+  return {
+    description: getMeta('description', 'og:description', 'twitter:description'),
+    og,
+    canonical: document.querySelector<HTMLLinkElement>('link[rel~="canonical" i]')?.href,
+    author: getMeta('author', 'article:author') ?? getLinkedData('author'),
+    published:
+      getMeta('article:published_time', 'datePublished', 'date', 'dc.date') ??
+      getLinkedData('datePublished'),
+    selection: normalize(getSelection()?.toString()),
+    h1: normalize(document.querySelector('h1')?.textContent),
+  }
+}
@@ -3,6 +3,9 @@ import { ScopeId } from '@/scope'
 import { FormatId } from '@/format'
 import { getConfiguredFormat, getConfiguredFormats } from '@/configured-format'
 import { getOption } from '@/options'
+import { getTabFilter } from '@/tab-filter'
+import { getCustomScopeTabCounts } from '@/custom-scope'
+import { getRecentlyClosedTabCount } from '@/recently-closed'
 import {
   // wrap
   getVisibleScopes,
@@ -12,13 +15,23 @@ import {
   setStorageValue,
 } from '@/storage'
 import { hasSecondaryActionModifierKey, hasTernaryActionModifierKey } from '@/keyboard'
+import {
+  // wrap
+  readClipboardContent,
+  parseClipboardContent,
+  getOpenPlanTabCount,
+  hasClipboardReadPermission,
+  requestClipboardReadPermission,
+  requestOpen,
+  OpenPlan,
+} from '@/open'
 import { intl } from '@/intl'
 import {
   // wrap
   getTabs,
+  getWindowsAndTabs,
   getWindowAndTabCounts,
   onTabCountChanged,
-  TabPredicate,
 } from '@/util/tabs'
 import {
   // wrap
@@ -27,12 +40,15 @@ import {
   getSpan,
   getDiv,
   getButton,
+  getInput,
   queryElement,
 } from '@/util/dom'
 import { serializer } from '@/util/async'
 import { sentenceCase } from '@/util/string'
 
 import optionsSvg from './icons/options.svg?raw'
+import openSvg from './icons/open.svg?raw'
+import pickSvg from './icons/pick.svg?raw'
 import docsSvg from './icons/docs.svg?raw'
 import donateSvg from './icons/donate.svg?raw'
 import './popup.css'
@@ -49,9 +65,18 @@ let oneTimeFormatId: FormatId | null = null // set when selecting a non-default
 
 let keepFormatSelectorExpanded = false
 
+// popup.html is also opened as a standalone window by the "open from clipboard" context menu
+const isOpenWindow = new URLSearchParams(location.search).has('open')
+
 initApp()
 
 function initApp() {
+  if (isOpenWindow) {
+    getDiv('header-text').textContent = intl.openFromClipboard()
+    initOpenView()
+    return
+  }
+
   initHeader()
   initCopyButtons()
   initFormats()
@@ -107,6 +132,37 @@ async function initHeader() {
 
   headerButtonsDiv.appendChild(optionsButton)
 
+  // --- open from clipboard button ---
+
+  const openButton = createButton()
+  addIcon(openButton, openSvg)
+
+  const openButtonText = document.createElement('span')
+  openButtonText.textContent = sentenceCase(intl.openFromClipboard())
+  openButton.appendChild(openButtonText)
+
+  openButton.addEventListener('click', () => {
+    // requested before anything is awaited so the click still counts as a user gesture
+    initOpenView(requestClipboardReadPermission())
+  })
+
+  headerButtonsDiv.appendChild(openButton)
+
+  // --- pick tabs button ---
+
+  const pickButton = createButton()
+  addIcon(pickButton, pickSvg)
+
+  const pickButtonText = document.createElement('span')
+  pickButtonText.textContent = sentenceCase(intl.pickTabs())
+  pickButton.appendChild(pickButtonText)
+
+  pickButton.addEventListener('click', () => {
+    initPickView()
+  })
+
+  headerButtonsDiv.appendChild(pickButton)
+
   // --- docs button ---
 
   const docsButton = createButton()
@@ -242,7 +298,7 @@ async function initCopyButtons() {
   // ensure async calls don't overlap
   const enqueue = serializer()
 
-  const optionsChanges = ['options']
+  const optionsChanges = ['options', 'tabFilter']
 
   chrome.storage.onChanged.addListener(
     makeStorageChangeHandler(
@@ -260,6 +316,11 @@ async function initCopyButtons() {
     enqueue(refreshCounts)
   })
 
+  // available only with the optional `sessions` permission
+  chrome.sessions?.onChanged.addListener(() => {
+    enqueue(refreshCounts)
+  })
+
   enqueue(refreshCounts)
 }
 
@@ -282,21 +343,21 @@ async function refreshCounts() {
     return
   }
 
-  const ignorePinnedTabs = (await getOption('ignorePinnedTabs')).value
+  const filter = await getTabFilter()
 
-  const filter: TabPredicate | undefined = ignorePinnedTabs // wrap
-    ? ({ pinned }) => !pinned
-    : undefined
+  const windowAndTabCounts = await getWindowAndTabCounts(filter)
 
-  const counts = await getWindowAndTabCounts(filter)
+  const counts: { [k in ScopeId]?: number } = {
+    ...windowAndTabCounts,
+    'all-windows-and-tabs': windowAndTabCounts['all-tabs'], // show tab count
+    ...(await getCustomScopeTabCounts(filter)),
+    'recently-closed': await getRecentlyClosedTabCount(filter),
+  }
 
   for (const button of copyButtons) {
     const scopeId = button.dataset.scope as ScopeId
 
-    const count =
-      scopeId === 'all-windows-and-tabs' // wrap
-        ? counts['all-tabs']
-        : counts[scopeId]
+    const count = counts[scopeId] ?? 0
 
     if (scopeId === 'highlighted-tabs' && count === 1) {
       button.style.removeProperty('--count') // removing count sets badge `content` to `None`, effectively hiding it
@@ -395,6 +456,328 @@ async function initFormats() {
   getDiv('format-section').style.removeProperty('display')
 }
 
+type PickRow = {
+  tab: chrome.tabs.Tab
+  el: HTMLDivElement
+  checkbox: HTMLInputElement
+}
+
+type PickWindowRow = {
+  el: HTMLDivElement
+  checkbox: HTMLInputElement // selects all matching tabs of the window
+  rows: PickRow[]
+}
+
+// replaces copy buttons with a searchable list of tabs, grouped by window, to copy a subset of
+// - shift-click selects or deselects a range of tabs
+// - picked tabs are not subject to the tab filter
+async function initPickView() {
+  const pickView = getDiv('pick-view')
+  const search = getInput('pick-search')
+  const list = getDiv('pick-list')
+  const copyButton = getButton('pick-copy-btn')
+  const cancelButton = getButton('pick-cancel-btn')
+
+  getDiv('copy-buttons').style.display = 'none'
+  getDiv('open-view').style.display = 'none'
+  pickView.style.removeProperty('display')
+  document.body.classList.add('picking')
+
+  search.placeholder = sentenceCase(intl.searchTabs())
+  search.value = ''
+  cancelButton.textContent = sentenceCase(intl.cancel())
+
+  cancelButton.onclick = () => {
+    pickView.style.display = 'none'
+    document.body.classList.remove('picking')
+    getDiv('copy-buttons').style.removeProperty('display')
+    queryElement('.button-primary')?.focus()
+  }
+
+  const windows = await getWindowsAndTabs()
+
+  const windowRows: PickWindowRow[] = []
+  const allRows: PickRow[] = []
+
+  let anchorRow: PickRow | undefined // last clicked tab row, for shift-click range selection
+
+  list.innerHTML = ''
+
+  windows.forEach(({ tabs = [] }, wi) => {
+    const windowEl = document.createElement('div')
+    windowEl.classList.add('pick-window')
+
+    const windowCheckbox = document.createElement('input')
+    windowCheckbox.type = 'checkbox'
+    windowCheckbox.title = sentenceCase(intl.selectAll())
+    windowEl.appendChild(windowCheckbox)
+
+    const windowTitle = document.createElement('span')
+    windowTitle.textContent = `${sentenceCase(intl.window())} ${wi + 1}`
+    windowEl.appendChild(windowTitle)
+
+    list.appendChild(windowEl)
+
+    const rows = tabs.map((tab) => {
+      const el = document.createElement('div')
+      el.classList.add('pick-tab')
+      el.title = tab.url ?? ''
+
+      const checkbox = document.createElement('input')
+      checkbox.type = 'checkbox'
+      el.appendChild(checkbox)
+
+      const favicon = document.createElement('img')
+      favicon.classList.add('pick-favicon')
+      favicon.alt = ''
+
+      if (tab.favIconUrl) {
+        favicon.src = tab.favIconUrl
+        favicon.onerror = () => favicon.removeAttribute('src') // eg favicons of `chrome://` pages
+      }
+
+      el.appendChild(favicon)
+
+      const title = document.createElement('span')
+      title.textContent = tab.title || tab.url || ''
+      el.appendChild(title)
+
+      list.appendChild(el)
+
+      return { tab, el, checkbox }
+    })
+
+    windowEl.addEventListener('click', (e) => {
+      // toggle matching tabs of the window
+      const checked = e.target === windowCheckbox ? windowCheckbox.checked : !windowCheckbox.checked
+
+      getMatchingRows(rows).forEach(({ checkbox }) => (checkbox.checked = checked))
+
+      refresh()
+    })
+
+    windowRows.push({ el: windowEl, checkbox: windowCheckbox, rows })
+    allRows.push(...rows)
+  })
+
+  for (const row of allRows) {
+    row.el.addEventListener('click', (e) => {
+      if (e.target !== row.checkbox) {
+        row.checkbox.checked = !row.checkbox.checked
+      }
+
+      const matchingRows = getMatchingRows(allRows)
+      const idx = matchingRows.indexOf(row)
+      const anchorIdx = anchorRow ? matchingRows.indexOf(anchorRow) : -1
+
+      if (e.shiftKey && anchorIdx !== -1) {
+        matchingRows
+          .slice(Math.min(idx, anchorIdx), Math.max(idx, anchorIdx) + 1)
+          .forEach(({ checkbox }) => (checkbox.checked = row.checkbox.checked))
+      }
+
+      anchorRow = row
+
+      refresh()
+    })
+  }
+
+  search.oninput = () => {
+    refresh()
+  }
+
+  search.onkeydown = (e) => {
+    if (e.code === 'Enter') {
+      copyButton.click()
+    }
+  }
+
+  copyButton.onclick = async () => {
+    const tabs = allRows.filter(({ checkbox }) => checkbox.checked).map(({ tab }) => tab)
+
+    if (!tabs.length) return
+
+    try {
+      await copy({ tabs, format: await getApplicableFormat() })
+
+      window.close()
+    } catch (ex) {
+      console.error(ex)
+
+      copyButton.style.backgroundColor = '#7a2c2c'
+    }
+  }
+
+  refresh()
+
+  search.focus()
+
+  function refresh() {
+    const query = search.value.trim().toLowerCase()
+
+    for (const { tab, el } of allRows) {
+      el.hidden = !!query && !`${tab.title ?? ''} ${tab.url ?? ''}`.toLowerCase().includes(query)
+    }
+
+    for (const { checkbox, el, rows } of windowRows) {
+      const matchingRows = getMatchingRows(rows)
+      const checkedCount = matchingRows.filter(({ checkbox }) => checkbox.checked).length
+
+      el.hidden = !matchingRows.length
+      checkbox.checked = !!checkedCount && checkedCount === matchingRows.length
+      checkbox.indeterminate = !!checkedCount && checkedCount < matchingRows.length
+    }
+
+    list.dataset.empty = sentenceCase(intl.noMatchingTabs())
+    list.classList.toggle('empty', !getMatchingRows(allRows).length)
+
+    const checkedCount = allRows.filter(({ checkbox }) => checkbox.checked).length
+
+    copyButton.textContent = sentenceCase(intl.copyPickedTabs(checkedCount))
+    copyButton.disabled = !checkedCount
+  }
+
+  function getMatchingRows(rows: PickRow[]) {
+    return rows.filter(({ el }) => !el.hidden)
+  }
+}
+
+// replaces copy UI with a preview of what will be opened from the clipboard
+// permissionRequest must be started by the caller, synchronously within a user gesture
+async function initOpenView(permissionRequest?: Promise<boolean>) {
+  const openView = getDiv('open-view')
+  const message = getDiv('open-message')
+  const preview = getDiv('open-preview')
+  const confirmButton = getButton('open-confirm-btn')
+  const cancelButton = getButton('open-cancel-btn')
+
+  getDiv('copy-buttons').style.display = 'none'
+  getDiv('pick-view').style.display = 'none'
+  getDiv('format-section').style.display = 'none'
+  document.body.classList.remove('picking')
+  openView.style.removeProperty('display')
+
+  message.textContent = ''
+  preview.innerHTML = ''
+  confirmButton.textContent = sentenceCase(intl.open())
+  confirmButton.disabled = true
+  confirmButton.onclick = null
+  cancelButton.textContent = sentenceCase(intl.cancel())
+
+  cancelButton.onclick = () => {
+    if (isOpenWindow) {
+      window.close()
+      return
+    }
+
+    openView.style.display = 'none'
+    getDiv('copy-buttons').style.removeProperty('display')
+    getDiv('format-section').style.removeProperty('display')
+    queryElement('.button-primary')?.focus()
+  }
+
+  try {
+    if (!(await (permissionRequest ?? hasClipboardReadPermission()))) {
+      message.textContent = sentenceCase(intl.clipboardReadRequired())
+
+      confirmButton.textContent = sentenceCase(intl.grantClipboardAccess())
+      confirmButton.disabled = false
+      confirmButton.focus()
+
+      confirmButton.onclick = () => {
+        initOpenView(requestClipboardReadPermission())
+      }
+
+      return
+    }
+
+    const content = await readClipboardContent()
+
+    if (!content) {
+      message.textContent = sentenceCase(intl.clipboardReadRequired())
+      return
+    }
+
+    const plan = parseClipboardContent(content)
+
+    if (!plan) {
+      message.textContent = sentenceCase(intl.nothingToOpen())
+      return
+    }
+
+    message.textContent = sentenceCase(
+      intl.openSummary({
+        tabCount: getOpenPlanTabCount(plan),
+        windowCount: plan.grouped ? plan.windows.length : undefined,
+        sourceLabel: getOpenSourceLabel(plan),
+      }),
+    )
+
+    renderOpenPreview(preview, plan)
+
+    confirmButton.disabled = false
+    confirmButton.focus()
+
+    confirmButton.onclick = async () => {
+      confirmButton.disabled = true
+
+      try {
+        await requestOpen(plan)
+        window.close()
+      } catch (ex) {
+        console.error('failed to open tabs from clipboard.', ex)
+        message.textContent = sentenceCase(intl.openFail())
+      }
+    }
+  } catch (ex) {
+    console.error('failed to read the clipboard.', ex)
+    message.textContent = sentenceCase(intl.clipboardReadRequired())
+  }
+}
+
+function renderOpenPreview(preview: HTMLDivElement, { grouped, windows }: OpenPlan) {
+  preview.innerHTML = ''
+
+  windows.forEach(({ title, tabs }, wi) => {
+    if (grouped) {
+      const windowTitle = document.createElement('div')
+      windowTitle.classList.add('open-window-title')
+      windowTitle.textContent = title || `${sentenceCase(intl.window())} ${wi + 1}`
+      preview.appendChild(windowTitle)
+    }
+
+    for (const { title, url } of tabs) {
+      const tab = document.createElement('div')
+      tab.classList.add('open-tab')
+      tab.textContent = title || url
+      tab.title = url
+      preview.appendChild(tab)
+    }
+  })
+}
+
+function getOpenSourceLabel({ source }: OpenPlan) {
+  switch (source) {
+    case 'nxs':
+      return 'NXS'
+
+    case 'json':
+      return 'JSON'
+
+    case 'csv':
+      return 'CSV'
+
+    case 'html':
+      return 'HTML'
+
+    case 'markdown':
+      return 'Markdown'
+
+    default:
+      return intl.urlList()
+  }
+}
+
 function initKeyboardInteraction() {
   document.addEventListener('keydown', ({ code }: KeyboardEvent) => {
     if (code !== 'ArrowUp' && code !== 'ArrowDown') return
@@ -1,4 +1,5 @@
 import { getDummyWindow, getDummyTab } from '@/util/tabs'
+import { PageMetadata } from '@/page-metadata'
 
 type PreviewWindow = {
   tabs: PreviewTab[]
@@ -8,14 +9,37 @@ type PreviewTab = {
   title?: string
   url: string
   favIconUrl?: string
+  groupId?: number
+  page?: PageMetadata
 }
 
+const previewGroups: chrome.tabGroups.TabGroup[] = [
+  {
+    id: 1,
+    title: 'Extensions',
+    color: 'blue',
+    collapsed: false,
+    windowId: 2,
+  },
+]
+
 const previewWindows: PreviewWindow[] = [
   {
     tabs: [
       {
         title: 'Example 1',
         url: 'https://www.example.com/',
+        page: {
+          description: 'This domain is for use in illustrative examples in documents.',
+          og: {
+            title: 'Example Domain',
+            image: 'https://www.example.com/og.png',
+          },
+          canonical: 'https://www.example.com/',
+          author: 'IANA',
+          published: '2024-10-17T09:30:00Z',
+          h1: 'Example Domain',
+        },
       },
       {
         title: 'Example 2',
@@ -33,11 +57,21 @@ const previewWindows: PreviewWindow[] = [
         title: 'Tab Copy',
         url: 'https://tabcopy.com/',
         favIconUrl: 'https://tabcopy.com/favicon.ico',
+        groupId: 1,
+        page: {
+          description: 'Copy browser tabs to the clipboard in a variety of formats.',
+          og: {
+            title: 'Tab Copy',
+          },
+          canonical: 'https://tabcopy.com/',
+          h1: 'Tab Copy',
+        },
       },
       {
         title: 'Session Buddy',
         url: 'https://sessionbuddy.com/',
         favIconUrl: 'https://sessionbuddy.com/wp-content/uploads/2024/03/logo-128-60x60.png',
+        groupId: 1,
       },
     ],
   },
@@ -47,12 +81,13 @@ export function getPreviewWindows() {
   return previewWindows.map(({ tabs }, wi) =>
     getDummyWindow({
       id: wi + 1,
-      tabs: tabs.map(({ title, url, favIconUrl }, ti) =>
+      tabs: tabs.map(({ title, url, favIconUrl, groupId }, ti) =>
         getDummyTab({
-          id: ti + 1,
+          id: getPreviewTabId(wi, ti),
           title,
           url,
           favIconUrl,
+          groupId,
           index: ti,
           windowId: wi + 1,
           active: !ti,
@@ -61,3 +96,23 @@ export function getPreviewWindows() {
     }),
   )
 }
+
+export function getPreviewGroups() {
+  return previewGroups
+}
+
+// resolves page metadata of a preview tab, standing in for reading the page
+export async function getPreviewPageMetadata({ id }: chrome.tabs.Tab) {
+  return previewWindows
+    .flatMap(({ tabs }, wi) => tabs.map(({ page }, ti) => ({ page, id: getPreviewTabId(wi, ti) })))
+    .find((tab) => tab.id === id)?.page
+}
+
+// tab ids are unique across windows
+function getPreviewTabId(windowIndex: number, tabIndex: number) {
+  return (
+    previewWindows.slice(0, windowIndex).reduce((count, { tabs }) => count + tabs.length, 0) +
+    tabIndex +
+    1
+  )
+}
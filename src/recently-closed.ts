@@ -0,0 +1,59 @@
+import { getOption } from '@/options'
+import { groupTabsByWindow, TabFilter } from '@/util/tabs'
+
+// recently closed tabs and windows via the optional `sessions` permission, most recently closed first
+// - closed tabs are grouped by the window they were closed from
+// - `recentlyClosedCount` caps the number of entries, where a closed window counts as one entry
+
+export function hasSessionsPermission() {
+  return chrome.permissions.contains({ permissions: ['sessions'] })
+}
+
+// must be called in response to a user gesture
+export function requestSessionsPermission() {
+  return chrome.permissions.request({ permissions: ['sessions'] })
+}
+
+// - excludes windows without tabs (possible with filter)
+// - returns an empty array without the `sessions` permission
+export async function getRecentlyClosedWindows({ predicate }: TabFilter = {}) {
+  if (!chrome.sessions || !(await hasSessionsPermission())) return []
+
+  const maxResults = (await getOption('recentlyClosedCount')).value
+
+  const sessions = await chrome.sessions.getRecentlyClosed({ maxResults })
+
+  const windows: chrome.windows.Window[] = []
+
+  // windows of closed tabs by windowId, ordered by their most recently closed tab
+  const tabWindows = new Map<number, chrome.windows.Window>()
+
+  for (const { tab, window } of sessions) {
+    if (window) {
+      windows.push(window)
+    } else if (tab) {
+      const tabWindow = tabWindows.get(tab.windowId)
+
+      if (tabWindow) {
+        tabWindow.tabs!.push(tab)
+      } else {
+        const [win] = groupTabsByWindow([tab])
+
+        tabWindows.set(tab.windowId, win)
+        windows.push(win)
+      }
+    }
+  }
+
+  return windows
+    .map((win) => ({
+      ...win,
+      tabs: (win.tabs ?? []).filter((tab) => tab.url && (!predicate || predicate(tab))),
+    }))
+    .filter(({ tabs }) => tabs.length)
+}
+
+export async function getRecentlyClosedTabCount(filter?: TabFilter) {
+  const windows = await getRecentlyClosedWindows(filter)
+  return windows.flatMap(({ tabs }) => tabs ?? []).length
+}
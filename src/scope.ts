@@ -1,14 +1,41 @@
 import { intl } from '@/intl'
+import { TabFilterRule } from '@/tab-filter'
+import { newId } from '@/util/id'
 
 export const MIN_VISIBLE_SCOPE_COUNT = 1
 
 export type ScopeType = 'window' | 'tab'
 
-export type Scope = (typeof scopes)[number]
-export type ScopeId = Scope['id']
-export type TabScopeId = Exclude<ScopeId, 'all-windows-and-tabs'>
+type BuiltinScope = (typeof builtinScopes)[number]
+export type BuiltinScopeId = BuiltinScope['id']
+export type CustomScopeId = `custom-${string}`
+export type ScopeId = BuiltinScopeId | CustomScopeId
+export type Scope = BuiltinScope | CustomScope
+export type WindowScopeId = Extract<
+  BuiltinScopeId,
+  'all-windows-and-tabs' | 'other-windows' | 'recently-closed'
+>
+export type OpenWindowScopeId = Exclude<WindowScopeId, 'recently-closed'>
+export type BuiltinTabScopeId = Exclude<BuiltinScopeId, WindowScopeId>
+export type TabScopeId = BuiltinTabScopeId | CustomScopeId
 
-export const scopes = [
+// user-defined scope that copies the tabs matching its rules, ungrouped
+export type CustomScopeDef = {
+  id: CustomScopeId
+  name: string
+  rules: TabFilterRule[]
+  currentWindow: boolean // search only the current window instead of all windows
+}
+
+type CustomScope = ScopeTemplate & {
+  id: CustomScopeId
+  description: () => string
+}
+
+// count of custom scopes that can be bound to keyboard commands, by order. see manifest `commands`.
+export const CUSTOM_SCOPE_COMMAND_COUNT = 3
+
+export const builtinScopes = [
   {
     id: 'highlighted-tabs',
     label: ({ highlightedTabCount } = {}) =>
@@ -18,24 +45,74 @@ export const scopes = [
     copyLabel: (formatLabel?: string) => intl.copySelectedTabs(formatLabel),
     description: () => intl.selectedTabsDescription(),
   },
+  {
+    id: 'left-tabs',
+    label: () => intl.tabsToTheLeft(),
+    copyLabel: (formatLabel?: string) => intl.copyLeftTabs(formatLabel),
+    description: () => intl.tabsToTheLeftDescription(),
+    hiddenByDefault: true,
+  },
+  {
+    id: 'right-tabs',
+    label: () => intl.tabsToTheRight(),
+    copyLabel: (formatLabel?: string) => intl.copyRightTabs(formatLabel),
+    description: () => intl.tabsToTheRightDescription(),
+    hiddenByDefault: true,
+  },
   {
     id: 'window-tabs',
     label: () => intl.thisWindowsTabs(),
     copyLabel: (formatLabel?: string) => intl.copyWindowTabs(formatLabel),
     description: () => intl.thisWindowsTabsDescription(),
   },
+  {
+    id: 'group-tabs',
+    label: () => intl.thisTabGroup(),
+    copyLabel: (formatLabel?: string) => intl.copyGroupTabs(formatLabel),
+    description: () => intl.thisTabGroupDescription(),
+    hiddenByDefault: true,
+  },
+  {
+    id: 'domain-tabs',
+    label: () => intl.thisDomainsTabs(),
+    copyLabel: (formatLabel?: string) => intl.copyDomainTabs(formatLabel),
+    description: () => intl.thisDomainsTabsDescription(),
+    hiddenByDefault: true,
+  },
+  {
+    id: 'audible-tabs',
+    label: () => intl.audibleTabs(),
+    copyLabel: (formatLabel?: string) => intl.copyAudibleTabs(formatLabel),
+    description: () => intl.audibleTabsDescription(),
+    hiddenByDefault: true,
+  },
   {
     id: 'all-tabs',
     label: () => intl.allTabs(),
     copyLabel: (formatLabel?: string) => intl.copyAllTabs(formatLabel),
     description: () => intl.allTabsDescription(),
   },
+  {
+    id: 'other-windows',
+    label: () => intl.otherWindows(),
+    copyLabel: (formatLabel?: string) => intl.copyOtherWindows(formatLabel),
+    description: () => intl.otherWindowsDescription(),
+    hiddenByDefault: true,
+  },
   {
     id: 'all-windows-and-tabs',
     label: () => intl.allWindowsAndTabs(),
     copyLabel: (formatLabel?: string) => intl.copyAllWindowsAndTabs(formatLabel),
     description: () => intl.allWindowsAndTabsDescription(),
   },
+  {
+    id: 'recently-closed',
+    label: () => intl.recentlyClosed(),
+    copyLabel: (formatLabel?: string) => intl.copyRecentlyClosed(formatLabel),
+    description: () => intl.recentlyClosedDescription(),
+    hiddenByDefault: true,
+    requiresPermissions: ['sessions'],
+  },
 ] as const satisfies ScopeTemplate[]
 
 type ScopeTemplate = {
@@ -43,12 +120,51 @@ type ScopeTemplate = {
   label: (tabsInfo?: TabsInfo) => string
   copyLabel: (formatLabel?: string) => string
   description?: () => string
+  hiddenByDefault?: boolean // hidden until made visible in options. keeps the popup compact for existing users when scopes are added.
+  requiresPermissions?: chrome.runtime.ManifestPermissions[] // optional permissions requested when made visible in options
 }
 
 type TabsInfo = {
   highlightedTabCount?: number // count of highlighted tabs in the current window
 }
 
+const windowScopeIds: ScopeId[] = [
+  'all-windows-and-tabs',
+  'other-windows',
+  'recently-closed',
+] satisfies WindowScopeId[]
+
 export function isTabScopeId(id: ScopeId): id is TabScopeId {
-  return id !== 'all-windows-and-tabs'
+  return !windowScopeIds.includes(id)
+}
+
+export function isHiddenByDefault(scope: Scope) {
+  return 'hiddenByDefault' in scope && scope.hiddenByDefault
+}
+
+export function getRequiredPermissions(scope: Scope): chrome.runtime.ManifestPermissions[] {
+  return ('requiresPermissions' in scope && scope.requiresPermissions) || []
+}
+
+export function isCustomScopeId(id: ScopeId): id is CustomScopeId {
+  return id.startsWith('custom-')
+}
+
+// a new custom scope, which is stored only once confirmed in the options editor
+export function makeCustomScopeDef(): CustomScopeDef {
+  return {
+    id: `custom-${newId()}`,
+    name: '',
+    rules: [{ id: newId(), action: 'include', type: 'domain', value: '' }],
+    currentWindow: false,
+  }
+}
+
+export function makeCustomScope({ id, name }: CustomScopeDef): CustomScope {
+  return {
+    id,
+    label: () => name || intl.untitledRange(),
+    copyLabel: (formatLabel?: string) => intl.copyCustomRange(name, formatLabel),
+    description: () => intl.customRangeDescription(),
+  }
 }
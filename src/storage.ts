@@ -4,10 +4,15 @@ import { OptionId, OptionValue } from '@/options'
 import { OptionTipId } from '@/option-tips'
 import {
   // wrap
-  scopes,
+  builtinScopes,
   MIN_VISIBLE_SCOPE_COUNT,
+  isHiddenByDefault,
+  makeCustomScope,
+  Scope,
   ScopeId,
   ScopeType,
+  CustomScopeId,
+  CustomScopeDef,
 } from '@/scope'
 import {
   builtinFormatIds,
@@ -19,9 +24,10 @@ import {
   FormatOpts,
 } from '@/format'
 import { CopySubject } from '@/copy-menus'
+import { TabFilterConfig } from '@/tab-filter'
 import { newId } from '@/util/id'
 
-class MinVisibleScopeExceededError extends Error {
+export class MinVisibleScopeExceededError extends Error {
   constructor(message: string) {
     super(message)
     this.name = 'MinVisibleScopeExceededError'
@@ -83,15 +89,28 @@ export async function getHiddenOptionTipIds(): Promise<OptionTipId[]> {
 
 // ----- scopes -----
 
+// builtin scopes followed by custom scopes
+export async function getAllScopes(): Promise<Scope[]> {
+  const customScopeDefs = await getCustomScopeDefs()
+  return [...builtinScopes, ...customScopeDefs.map(makeCustomScope)]
+}
+
 export async function getVisibleScopes() {
+  const allScopes = await getAllScopes()
   const hiddenScopeIds = await getHiddenScopeIds()
-  return scopes.filter(({ id }) => !hiddenScopeIds.includes(id))
+  const shownScopeIds = await getShownScopeIds()
+
+  return allScopes.filter((scope) =>
+    isHiddenByDefault(scope) // wrap
+      ? shownScopeIds.includes(scope.id)
+      : !hiddenScopeIds.includes(scope.id),
+  )
 }
 
 export async function toggleVisibleScopeId(id: ScopeId, visible?: boolean) {
-  const hiddenScopeIds = await getHiddenScopeIds()
+  const visibleScopes = await getVisibleScopes()
 
-  const isVisible = !hiddenScopeIds.includes(id)
+  const isVisible = visibleScopes.some((scope) => scope.id === id)
   const makingVisible = visible === undefined ? !isVisible : visible
 
   if (isVisible && !makingVisible) {
@@ -104,14 +123,37 @@ export async function toggleVisibleScopeId(id: ScopeId, visible?: boolean) {
       )
     }
 
-    return setHiddenScopeIds([...hiddenScopeIds, id])
+    return setScopeVisibility(id, false)
   }
 
   if (!isVisible && makingVisible) {
-    return setHiddenScopeIds(hiddenScopeIds.filter((scopeId) => scopeId !== id))
+    return setScopeVisibility(id, true)
   }
 }
 
+// scopes that are hidden by default are tracked by `shownScopeIds`, other scopes by `hiddenScopeIds`
+async function setScopeVisibility(id: ScopeId, visible: boolean) {
+  const scope = builtinScopes.find((scope) => scope.id === id)
+
+  if (scope && isHiddenByDefault(scope)) {
+    const shownScopeIds = await getShownScopeIds()
+
+    return setShownScopeIds(
+      visible // wrap
+        ? [...shownScopeIds, id]
+        : shownScopeIds.filter((scopeId) => scopeId !== id),
+    )
+  }
+
+  const hiddenScopeIds = await getHiddenScopeIds()
+
+  return setHiddenScopeIds(
+    visible // wrap
+      ? hiddenScopeIds.filter((scopeId) => scopeId !== id)
+      : [...hiddenScopeIds, id],
+  )
+}
+
 async function hasMinimumVisibleScopeCount() {
   const visibleScopes = await getVisibleScopes()
   return visibleScopes.length <= MIN_VISIBLE_SCOPE_COUNT
@@ -126,6 +168,93 @@ function setHiddenScopeIds(ids: ScopeId[]) {
   return storage.set({ hiddenScopeIds: ids })
 }
 
+async function getShownScopeIds(): Promise<ScopeId[]> {
+  const { shownScopeIds = [] } = await storage.get('shownScopeIds')
+  return shownScopeIds
+}
+
+function setShownScopeIds(ids: ScopeId[]) {
+  return storage.set({ shownScopeIds: ids })
+}
+
+// ----- custom scopes -----
+
+// adds the custom scope if it does not exist
+export async function setCustomScopeDef(def: CustomScopeDef) {
+  const customScopeDefs = await getCustomScopeDefs()
+
+  return setCustomScopeDefs(
+    customScopeDefs.some((d) => d.id === def.id)
+      ? customScopeDefs.map((d) => (d.id === def.id ? def : d))
+      : [...customScopeDefs, def],
+  )
+}
+
+export async function removeCustomScope(id: CustomScopeId) {
+  const visibleScopes = await getVisibleScopes()
+
+  // enforce minimum visible count
+  if (visibleScopes.some((scope) => scope.id === id) && (await hasMinimumVisibleScopeCount())) {
+    throw new MinVisibleScopeExceededError(
+      `Scope ${id} cannot be deleted because at least ${MIN_VISIBLE_SCOPE_COUNT} ${
+        MIN_VISIBLE_SCOPE_COUNT === 1 ? 'scope' : 'scopes'
+      } must be visible.`,
+    )
+  }
+
+  const customScopeDefs = await getCustomScopeDefs()
+
+  await setCustomScopeDefs(customScopeDefs.filter((def) => def.id !== id))
+
+  // cleanup
+
+  return setScopeVisibility(id, true)
+}
+
+// ordered by creation. order determines keyboard command binding.
+export async function getCustomScopeDefs(): Promise<CustomScopeDef[]> {
+  const { customScopes = [] } = await storage.get('customScopes')
+  return customScopes
+}
+
+export async function getCustomScopeDef(id: CustomScopeId) {
+  const customScopeDefs = await getCustomScopeDefs()
+  return customScopeDefs.find((def) => def.id === id)
+}
+
+function setCustomScopeDefs(defs: CustomScopeDef[]) {
+  return storage.set({ customScopes: defs })
+}
+
+// ----- tab filter -----
+
+export async function getTabFilterConfig(): Promise<TabFilterConfig> {
+  const { tabFilter, options } = await storage.get(['tabFilter', 'options'])
+
+  if (tabFilter) return tabFilter
+
+  // migrate legacy `ignorePinnedTabs` option on first read
+  const { ignorePinnedTabs, ...otherOptions } = options ?? {}
+
+  const config: TabFilterConfig = {
+    rules: ignorePinnedTabs
+      ? [{ id: newId(), action: 'exclude', type: 'pinned' }] // wrap
+      : [],
+    applyToHighlightedTabs: false,
+  }
+
+  await storage.set({
+    tabFilter: config,
+    ...(options && { options: otherOptions }),
+  })
+
+  return config
+}
+
+export function setTabFilterConfig(config: TabFilterConfig) {
+  return storage.set({ tabFilter: config })
+}
+
 // ----- default format id -----
 
 export async function getDefaultFormatId() {
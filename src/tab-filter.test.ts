@@ -0,0 +1,129 @@
+import { describe, expect, it } from 'vitest'
+
+import { makeTabPredicate, isValidTabFilterRule, TabFilterRule } from '@/tab-filter'
+
+const groups = [
+  { id: 1, title: 'Work stuff', color: 'blue', collapsed: false, windowId: 1 },
+] as chrome.tabGroups.TabGroup[]
+
+// whether a tab with the given props matches a rule, ie is kept by it as an include rule
+function matches(rule: Omit<TabFilterRule, 'id' | 'action'>, tab: Partial<chrome.tabs.Tab>) {
+  const predicate = makeTabPredicate([{ id: 'rule', action: 'include', ...rule }], { groups })
+
+  if (!predicate) throw new Error('invalid rule')
+
+  return predicate(tab as chrome.tabs.Tab)
+}
+
+const urlRule = (value: string) => ({ type: 'url', value }) as const
+
+describe('url glob rules', () => {
+  it('match urls without their scheme when the pattern has none', () => {
+    expect(matches(urlRule('github.com/*/pull/*'), { url: 'https://github.com/a/pull/1' })).toBe(
+      true,
+    )
+    expect(matches(urlRule('github.com/*/pull/*'), { url: 'https://github.com/a/issues/1' })).toBe(
+      false,
+    )
+  })
+
+  it('match whole urls when the pattern has a scheme', () => {
+    expect(matches(urlRule('https://*.example.com/*'), { url: 'https://docs.example.com/a' })).toBe(
+      true,
+    )
+    expect(matches(urlRule('https://*.example.com/*'), { url: 'http://docs.example.com/a' })).toBe(
+      false,
+    )
+    expect(matches(urlRule('*://*'), { url: 'chrome://extensions/' })).toBe(true)
+  })
+
+  it('do not mistake a port for a scheme', () => {
+    expect(matches(urlRule('localhost:8080/*'), { url: 'http://localhost:8080/a' })).toBe(true)
+  })
+
+  it('are anchored and case-insensitive, with `?` matching one char', () => {
+    expect(matches(urlRule('EXAMPLE.com/?'), { url: 'https://example.com/a' })).toBe(true)
+    expect(matches(urlRule('example.com/?'), { url: 'https://example.com/ab' })).toBe(false)
+    expect(matches(urlRule('example.com'), { url: 'https://www.example.com' })).toBe(false)
+  })
+
+  it('treat regex syntax literally', () => {
+    expect(matches(urlRule('example.com/a+b'), { url: 'https://example.com/a+b' })).toBe(true)
+    expect(matches(urlRule('example.com/a+b'), { url: 'https://example.com/aab' })).toBe(false)
+  })
+})
+
+describe('url regex rules', () => {
+  const regexRule = (value: string) => ({ type: 'url-regex', value }) as const
+
+  it('are unanchored and case-insensitive', () => {
+    expect(matches(regexRule('example\\.COM/'), { url: 'https://www.example.com/a' })).toBe(true)
+    expect(matches(regexRule('^example'), { url: 'https://example.com/' })).toBe(false)
+  })
+
+  it('are invalid when malformed', () => {
+    expect(
+      isValidTabFilterRule({ id: 'rule', action: 'include', type: 'url-regex', value: '(' }),
+    ).toBe(false)
+  })
+})
+
+describe('other rules', () => {
+  it('match schemes with or without a trailing colon', () => {
+    for (const value of ['chrome', 'CHROME:', 'chrome://', '*-extension']) {
+      const scheme = value === '*-extension' ? 'chrome-extension' : 'chrome'
+      expect(matches({ type: 'scheme', value }, { url: `${scheme}://x/` })).toBe(true)
+    }
+  })
+
+  it('match domains and their subdomains', () => {
+    const rule = { type: 'domain', value: '*.Example.com' } as const
+
+    expect(matches(rule, { url: 'https://example.com/' })).toBe(true)
+    expect(matches(rule, { url: 'https://docs.example.com/' })).toBe(true)
+    expect(matches(rule, { url: 'https://notexample.com/' })).toBe(false)
+  })
+
+  it('match group titles, or any grouped tab without a value', () => {
+    const rule = (value: string) => ({ type: 'group', value }) as const
+
+    expect(matches(rule('work*'), { groupId: 1 })).toBe(true)
+    expect(matches(rule('play*'), { groupId: 1 })).toBe(false)
+    expect(matches(rule(''), { groupId: 1 })).toBe(true)
+    expect(matches(rule(''), { groupId: -1 })).toBe(false)
+  })
+})
+
+describe('makeTabPredicate', () => {
+  const rules: TabFilterRule[] = [
+    { id: '1', action: 'include', type: 'domain', value: 'example.com' },
+    { id: '2', action: 'include', type: 'domain', value: 'example.org' },
+    { id: '3', action: 'exclude', type: 'pinned' },
+  ]
+
+  const predicate = makeTabPredicate(rules, { groups })!
+
+  it('keeps tabs that match any include rule and no exclude rule', () => {
+    expect(predicate({ url: 'https://example.org/' } as chrome.tabs.Tab)).toBe(true)
+    expect(predicate({ url: 'https://example.net/' } as chrome.tabs.Tab)).toBe(false)
+    expect(predicate({ url: 'https://example.com/', pinned: true } as chrome.tabs.Tab)).toBe(false)
+  })
+
+  it('keeps all tabs not excluded when there are no include rules', () => {
+    const excludeOnly = makeTabPredicate([rules[2]], { groups })!
+
+    expect(excludeOnly({ url: 'https://example.net/' } as chrome.tabs.Tab)).toBe(true)
+  })
+
+  it('ignores invalid rules and returns undefined without valid rules', () => {
+    expect(
+      makeTabPredicate(
+        [
+          { id: '1', action: 'include', type: 'url-regex', value: '[' },
+          { id: '2', action: 'include', type: 'domain', value: ' ' },
+        ],
+        { groups },
+      ),
+    ).toBeUndefined()
+  })
+})
@@ -0,0 +1,223 @@
+import { getTabFilterConfig } from '@/storage'
+import { intl } from '@/intl'
+import { getTabGroups, TabFilter, TabPredicate } from '@/util/tabs'
+import { regExEscape } from '@/util/regex'
+
+// tab filter rules omit tabs from copies and popup counts
+// - a tab is kept if it matches any include rule (or there are no include rules) and no exclude rules
+// - invalid rules, like a malformed regex, are ignored
+
+export type TabFilterAction = 'include' | 'exclude'
+
+export type TabFilterRuleTypeSpec = (typeof tabFilterRuleTypes)[number]
+export type TabFilterRuleType = TabFilterRuleTypeSpec['id']
+
+export type TabFilterRule = {
+  id: string // stable key for editing
+  action: TabFilterAction
+  type: TabFilterRuleType
+  value?: string // required by rule types with `hasValue`
+}
+
+export type TabFilterConfig = {
+  rules: TabFilterRule[]
+  applyToHighlightedTabs: boolean // whether rules also apply to the `highlighted-tabs` scope
+}
+
+type TabFilterContext = {
+  groups: chrome.tabGroups.TabGroup[]
+}
+
+export const tabFilterActions: TabFilterAction[] = ['exclude', 'include']
+
+export const tabFilterRuleTypes = [
+  {
+    // `*` matches any characters and `?` matches one character, eg `https://*.example.com/*`
+    // - patterns without a scheme match URLs without their scheme, eg `github.com/*/pull/*`
+    id: 'url',
+    label: () => intl.urlGlob(),
+    hasValue: true,
+    placeholder: () => 'github.com/*/pull/*',
+    isValid: (value) => !!value,
+    match: ({ url = '' }, value) =>
+      globToRegExp(value).test(rxSchemePattern.test(value) ? url : url.replace(rxSchemePrefix, '')),
+  },
+  {
+    id: 'url-regex',
+    label: () => intl.urlRegex(),
+    hasValue: true,
+    placeholder: () => '^https?://(www\\.)?example\\.com/',
+    isValid: (value) => !!value && !!toRegExp(value),
+    match: ({ url }, value) => !!toRegExp(value)?.test(url ?? ''),
+  },
+  {
+    // `chrome`, `file`, `*-extension` (extension pages), etc
+    id: 'scheme',
+    label: () => intl.scheme(),
+    hasValue: true,
+    placeholder: () => 'chrome',
+    isValid: (value) => !!normalizeScheme(value),
+    match: ({ url }, value) => globToRegExp(normalizeScheme(value)).test(getScheme(url)),
+  },
+  {
+    // matches the domain and its subdomains
+    id: 'domain',
+    label: () => intl.domain(),
+    hasValue: true,
+    placeholder: () => 'example.com',
+    isValid: (value) => !!normalizeDomain(value),
+    match: ({ url }, value) => {
+      const hostname = getHostname(url)
+      const domain = normalizeDomain(value)
+
+      return hostname === domain || hostname.endsWith(`.${domain}`)
+    },
+  },
+  {
+    // matches group titles. an empty value matches any grouped tab.
+    id: 'group',
+    label: () => intl.tabGroup(),
+    hasValue: true,
+    placeholder: () => intl.anyGroup(),
+    isValid: () => true,
+    match: ({ groupId }, value, { groups }) => {
+      if (groupId === undefined || groupId === -1) return false
+      if (!value) return true
+
+      const title = groups.find(({ id }) => id === groupId)?.title ?? ''
+
+      return globToRegExp(value).test(title)
+    },
+  },
+  {
+    id: 'pinned',
+    label: () => intl.pinnedTabs(),
+    hasValue: false,
+    isValid: () => true,
+    match: ({ pinned }) => pinned,
+  },
+  {
+    id: 'discarded',
+    label: () => intl.discardedTabs(),
+    hasValue: false,
+    isValid: () => true,
+    match: ({ discarded }) => discarded,
+  },
+  {
+    id: 'audible',
+    label: () => intl.audibleTabs(),
+    hasValue: false,
+    isValid: () => true,
+    match: ({ audible }) => !!audible,
+  },
+  {
+    id: 'incognito',
+    label: () => intl.incognitoTabs(),
+    hasValue: false,
+    isValid: () => true,
+    match: ({ incognito }) => incognito,
+  },
+] as const satisfies TabFilterRuleTypeTemplate[]
+
+type TabFilterRuleTypeTemplate = {
+  id: string
+  label: () => string
+  hasValue: boolean
+  placeholder?: () => string
+  isValid: (value: string) => boolean
+  match: (tab: chrome.tabs.Tab, value: string, context: TabFilterContext) => boolean
+}
+
+// the tab filter shared by copying, popup counts, and keyboard commands
+export async function getTabFilter(): Promise<TabFilter> {
+  const { rules, applyToHighlightedTabs } = await getTabFilterConfig()
+
+  return {
+    predicate: await getTabPredicate(rules),
+    applyToHighlightedTabs,
+  }
+}
+
+// returns `undefined` if there are no valid rules
+export async function getTabPredicate(rules: TabFilterRule[]) {
+  const groups = rules.some(({ type }) => type === 'group') // wrap
+    ? await getTabGroups()
+    : []
+
+  return makeTabPredicate(rules, { groups })
+}
+
+// returns `undefined` if there are no valid rules
+export function makeTabPredicate(
+  rules: TabFilterRule[],
+  context: TabFilterContext,
+): TabPredicate | undefined {
+  const validRules = rules.filter(isValidTabFilterRule)
+
+  if (!validRules.length) return
+
+  const includeRules = validRules.filter(({ action }) => action === 'include')
+  const excludeRules = validRules.filter(({ action }) => action === 'exclude')
+
+  const matches = (tab: chrome.tabs.Tab) => (rule: TabFilterRule) =>
+    getTabFilterRuleType(rule.type).match(tab, rule.value?.trim() ?? '', context)
+
+  return (tab) =>
+    (!includeRules.length || includeRules.some(matches(tab))) && !excludeRules.some(matches(tab))
+}
+
+export function isValidTabFilterRule({ type, value }: TabFilterRule) {
+  const ruleType = getTabFilterRuleType(type)
+  return !!ruleType && ruleType.isValid(value?.trim() ?? '')
+}
+
+export function getTabFilterRuleType(id: TabFilterRuleType): TabFilterRuleTypeTemplate {
+  return tabFilterRuleTypes.find((ruleType) => ruleType.id === id)!
+}
+
+// case-insensitive and anchored
+function globToRegExp(glob: string) {
+  const pattern = glob
+    .split('*')
+    .map((part) => part.split('?').map(regExEscape).join('.'))
+    .join('.*')
+
+  return new RegExp(`^${pattern}$`, 'i')
+}
+
+// case-insensitive and unanchored
+function toRegExp(pattern: string) {
+  try {
+    return new RegExp(pattern, 'i')
+  } catch {
+    return
+  }
+}
+
+// accepts `chrome`, `chrome:`, or `chrome://`
+function normalizeScheme(scheme: string) {
+  return scheme.replace(/:(\/\/)?$/, '').toLowerCase()
+}
+
+// accepts `example.com`, `.example.com`, or `*.example.com`
+function normalizeDomain(domain: string) {
+  return domain.replace(/^\*?\./, '').toLowerCase()
+}
+
+// eg `https://` or `mailto:`
+const rxSchemePrefix = /^[a-z][a-z\d+.-]*:(\/\/)?/i
+
+// patterns with a scheme, eg `https://*` or `*://*`, but not `localhost:8080/*`
+const rxSchemePattern = /^[^/]*:\//
+
+function getScheme(url = '') {
+  return url.match(/^([a-z][a-z\d+.-]*):/i)?.[1].toLowerCase() ?? ''
+}
+
+function getHostname(url = '') {
+  try {
+    return new URL(url).hostname.toLowerCase()
+  } catch {
+    return ''
+  }
+}
@@ -1,9 +1,14 @@
 import { getAnchorTagHtml } from '@/format'
-import { regExEscape } from '@/util/regex'
+import { TemplateNode, TemplateToken, TemplateFilter } from '@/template'
 import { encodeHtml } from '@/util/string'
+import { stringifyCSVRow } from '@/util/csv'
+import { escapeMarkdownText } from '@/util/markdown'
+import { formatDate, formatIsoDate, formatUtcDate, LocalizedDate } from '@/util/date'
+import { getRegistrableDomain } from '@/util/domain'
+import { PageMetadata } from '@/page-metadata'
 import { intl } from '@/intl'
 
-// This file contains specs for the tokens and template fields used by custom formats
+// This file contains specs for the tokens, token filters, and template fields used by custom formats
 
 // todo: intl token labels
 
@@ -11,25 +16,69 @@ export type Token = {
   id: string
   label: () => string // label of token in token selector
   token: string // text of inline token
+  insert?: string // text inserted by the token selector if other than `token`, eg for tokens that require args
   aliases?: string[] // aliases for text of inline token, mostly historic
-  value: (source: TokenValueSources) => string
+  isValid?: (args: string[]) => boolean // tokens without `isValid` take no args
+  value: (source: TokenValueSources, args: string[]) => string
+  test?: (source: TokenValueSources) => boolean // whether conditional sections that test this token render, eg `[?pinned]`. defaults to whether the token has a value.
+  unescaped?: boolean // whether values are exempt from the custom format's escape mode, eg newlines, which are part of the template's structure
+  html?: boolean // whether html values are markup, eg the anchor tag of `[link]`. such tokens take no filters, which operate on plain text, and their html values are not escaped.
+  page?: boolean // whether values are read from page content at copy time, which requires page access (see page-metadata.ts)
+  counter?: boolean // whether the token is a number that accepts an offset (eg `[t#+100]`) and a pad width or numbering style arg (eg `[t#:03]`, `[t#:a]`, `[t#:I]`). counters do not use `isValid`.
 }
 
+// named constant declared by a custom format, inserted with `[@name]`
+export type TemplateVariable = {
+  name: string
+  value: string
+}
+
+// filters transform token values, eg `[title|upper]`. they are chained left to right and operate on plain text values.
+export type TokenFilter = {
+  name: string
+  isValid?: (args: string[]) => boolean // filters without `isValid` take no args
+  apply: (value: string, args: string[]) => string
+}
+
+// how custom formats escape token values for the syntax of their output, eg `json` for token values inside of JSON strings
+export const escapeModes = ['none', 'markdown', 'csv', 'json', 'xml', 'shell'] as const
+
+export type EscapeMode = (typeof escapeModes)[number]
+
 // normalized sources that token values may draw from
 export type TokenValueSources = {
-  now?: Date
+  now?: LocalizedDate // current date in the custom format's locale and time zone
   tabSeq?: number
   windowTabSeq?: number
   windowSeq?: number
   tabCount?: number
   windowTabCount?: number
   windowCount?: number
+  window?: chrome.windows.Window
   tab?: chrome.tabs.Tab
+  group?: chrome.tabGroups.TabGroup
+  page?: PageMetadata
   parsedUrl?: URL
   formatName?: string
+  escapeAs?: EscapeMode
   representation?: 'text' | 'html'
 }
 
+// default formats of date tokens without a pattern, consistent with `toLocaleDateString()`, `toLocaleTimeString()`, and `toLocaleString()`
+const dateFormat: Intl.DateTimeFormatOptions = { year: 'numeric', month: 'numeric', day: 'numeric' }
+const timeFormat: Intl.DateTimeFormatOptions = {
+  hour: 'numeric',
+  minute: 'numeric',
+  second: 'numeric',
+}
+const dateTimeFormat = { ...dateFormat, ...timeFormat }
+
+// counter offset suffix, eg `+100` in `[t#+100]`
+const rxCounterOffset = /\s*([+-])\s*(\d+)$/
+
+// counter pad width (eg `03`) or numbering style
+const rxCounterStyle = /^(\d+|[aAiI])$/
+
 export type TemplateFieldId = (typeof templateFields)[number]['id']
 
 const tokens = [
@@ -49,18 +98,21 @@ const tokens = [
       'tab+#',
       'tab+number',
     ],
+    counter: true,
     value: ({ tabSeq }) => stringify(tabSeq),
   },
   {
     id: 'window-tab-number',
     label: () => 'window tab #',
     token: 'wt#',
+    counter: true,
     value: ({ windowTabSeq, tabSeq }) => stringify(windowTabSeq ?? tabSeq), // allow undefined windowTabSeq to fallback to tabSeq for custom formats for scope flexibility (one token wt# that works for both scope types)
   },
   {
     id: 'window-number',
     label: () => 'window #',
     token: 'w#',
+    counter: true,
     value: ({ windowSeq }) => stringify(windowSeq),
   },
   {
@@ -98,6 +150,7 @@ const tokens = [
     id: 'tab-link',
     label: () => 'link',
     token: 'link',
+    html: true,
     value: ({ tab, representation }) =>
       tab // wrap
         ? representation === 'html'
@@ -111,6 +164,100 @@ const tokens = [
     token: 'icon',
     value: ({ tab, representation }) => encode(tab?.favIconUrl, representation),
   },
+  {
+    id: 'tab-pinned',
+    label: () => 'pinned',
+    token: 'pinned',
+    value: ({ tab }) => stringify(tab?.pinned),
+    test: ({ tab }) => !!tab?.pinned,
+  },
+  {
+    id: 'tab-audible',
+    label: () => 'audible',
+    token: 'audible',
+    value: ({ tab }) => stringify(tab?.audible),
+    test: ({ tab }) => !!tab?.audible,
+  },
+  {
+    id: 'tab-muted',
+    label: () => 'muted',
+    token: 'muted',
+    value: ({ tab }) => stringify(tab?.mutedInfo?.muted),
+    test: ({ tab }) => !!tab?.mutedInfo?.muted,
+  },
+  {
+    id: 'tab-discarded',
+    label: () => 'discarded',
+    token: 'discarded',
+    value: ({ tab }) => stringify(tab?.discarded),
+    test: ({ tab }) => !!tab?.discarded,
+  },
+  {
+    id: 'tab-incognito',
+    label: () => 'incognito',
+    token: 'incognito',
+    value: ({ tab }) => stringify(tab?.incognito),
+    test: ({ tab }) => !!tab?.incognito,
+  },
+  {
+    // zero-based position of a tab in its window
+    id: 'tab-index',
+    label: () => 'index',
+    token: 'index',
+    counter: true,
+    value: ({ tab }) => stringify(tab?.index),
+  },
+  {
+    // `[accessed]` or `[accessed:YYYY-MM-DD HH:mm]`
+    id: 'tab-last-accessed',
+    label: () => 'last accessed',
+    token: 'accessed',
+    aliases: ['lastaccessed', 'lastAccessed', 'last accessed', 'last-accessed'],
+    isValid: () => true,
+    value: ({ tab, now, representation }, args) =>
+      encode(
+        tab?.lastAccessed === undefined
+          ? ''
+          : formatLocalizedDate({ ...now, date: new Date(tab.lastAccessed) }, args, dateTimeFormat),
+        representation,
+      ),
+  },
+  {
+    id: 'tab-id',
+    label: () => 'tab id',
+    token: 'tid',
+    aliases: ['tabid', 'tab id', 'tab-id'],
+    value: ({ tab }) => stringify(tab?.id),
+  },
+  {
+    id: 'window-id',
+    label: () => 'window id',
+    token: 'wid',
+    aliases: ['windowid', 'window id', 'window-id'],
+    value: ({ window, tab }) => stringify(window?.id ?? tab?.windowId),
+  },
+  {
+    id: 'group-title',
+    label: () => 'group',
+    token: 'group',
+    aliases: ['group title', 'grouptitle', 'group-title'],
+    value: ({ group, representation }) => encode(group?.title, representation),
+  },
+  {
+    id: 'group-color',
+    label: () => 'group color',
+    token: 'group color',
+    aliases: ['groupcolor', 'group-color'],
+    value: ({ group }) => group?.color ?? '',
+  },
+  {
+    id: 'group-collapsed',
+    label: () => 'group collapsed',
+    token: 'group collapsed',
+    aliases: ['groupcollapsed', 'group-collapsed'],
+    value: ({ group }) => stringify(group?.collapsed),
+    test: ({ group }) => !!group?.collapsed,
+  },
   {
     id: 'tab-url-schema',
     label: () => 'schema',
@@ -125,18 +272,61 @@ const tokens = [
     value: ({ parsedUrl, representation }) => encode(parsedUrl?.host, representation),
   },
   {
+    id: 'tab-url-domain',
+    label: () => 'domain',
+    token: 'domain',
+    value: ({ parsedUrl, representation }) => encode(getDomain(parsedUrl), representation),
+  },
+  {
+    id: 'tab-url-subdomain',
+    label: () => 'subdomain',
+    token: 'subdomain',
+    value: ({ parsedUrl, representation }) => encode(getSubdomain(parsedUrl), representation),
+  },
+  {
+    id: 'tab-url-port',
+    label: () => 'port',
+    token: 'port',
+    value: ({ parsedUrl }) => parsedUrl?.port ?? '',
+  },
+  {
+    id: 'tab-url-origin',
+    label: () => 'origin',
+    token: 'origin',
+    value: ({ parsedUrl, representation }) => encode(getOrigin(parsedUrl), representation),
+  },
+  {
+    // `[path]` or `[path:1]` for the first path segment
     id: 'tab-url-path',
     label: () => 'path',
     token: 'path',
-    value: ({ parsedUrl, representation }) =>
-      encode(parsedUrl?.pathname.replace(/^\//, ''), representation),
+    isValid: (args) => !args.length || (args.length === 1 && /^[1-9]\d*$/.test(args[0])),
+    value: ({ parsedUrl, representation }, [segment]) =>
+      encode(
+        segment
+          ? getPathSegments(parsedUrl)[parseInt(segment, 10) - 1]
+          : parsedUrl?.pathname.replace(/^\//, ''),
+        representation,
+      ),
+  },
+  {
+    id: 'tab-url-filename',
+    label: () => 'filename',
+    token: 'filename',
+    aliases: ['file name', 'file-name'],
+    value: ({ parsedUrl, representation }) => encode(getFilename(parsedUrl), representation),
   },
   {
+    // `[query]` or `[query:v]` for the value of the `v` query parameter
     id: 'tab-url-query',
     label: () => 'query',
     token: 'query',
-    value: ({ parsedUrl, representation }) =>
-      encode(parsedUrl?.search.replace(/^\?/, ''), representation),
+    isValid: (args) => !args.length || (args.length === 1 && !!args[0]),
+    value: ({ parsedUrl, representation }, [param]) =>
+      encode(
+        param ? parsedUrl?.searchParams.get(param) : parsedUrl?.search.replace(/^\?/, ''),
+        representation,
+      ),
   },
   {
     id: 'tab-url-hash',
@@ -146,29 +336,128 @@ const tokens = [
       encode(parsedUrl?.hash.replace(/^\#/, ''), representation),
   },
   {
+    id: 'page-description',
+    label: () => 'description',
+    token: 'description',
+    page: true,
+    value: ({ page, representation }) => encode(page?.description, representation),
+  },
+  {
+    // `[og:title]`, `[og:image]`, or any other open graph property, eg `[og:site_name]`
+    id: 'page-og',
+    label: () => 'og:property',
+    token: 'og',
+    insert: 'og:title',
+    page: true,
+    isValid: (args) => !!args.length && args.every((arg) => /^[\w.-]+$/.test(arg)),
+    value: ({ page, representation }, args) =>
+      encode(page?.og[args.join(':').toLowerCase()], representation),
+  },
+  {
+    id: 'page-canonical',
+    label: () => 'canonical',
+    token: 'canonical',
+    page: true,
+    value: ({ page, representation }) => encode(page?.canonical, representation),
+  },
+  {
+    id: 'page-author',
+    label: () => 'author',
+    token: 'author',
+    page: true,
+    value: ({ page, representation }) => encode(page?.author, representation),
+  },
+  {
+    // `[published]` or `[published:YYYY-MM-DD]`. unparseable dates are used as-is.
+    id: 'page-published',
+    label: () => 'published',
+    token: 'published',
+    page: true,
+    isValid: () => true,
+    value: ({ page, now, representation }, args) => {
+      const date = page?.published ? new Date(page.published) : undefined
+
+      return encode(
+        date && !isNaN(date.getTime()) && args.length
+          ? formatLocalizedDate({ ...now, date }, args, dateTimeFormat)
+          : page?.published,
+        representation,
+      )
+    },
+  },
+  {
+    id: 'page-selection',
+    label: () => 'selection',
+    token: 'selection',
+    page: true,
+    value: ({ page, representation }) => encode(page?.selection, representation),
+  },
+  {
+    id: 'page-h1',
+    label: () => 'h1',
+    token: 'h1',
+    page: true,
+    value: ({ page, representation }) => encode(page?.h1, representation),
+  },
+  {
+    // `[date]` or `[date:YYYY-MM-DD]`
     id: 'date',
     label: () => 'date',
     token: 'date',
-    value: ({ now, representation }) => encode(now?.toLocaleDateString(), representation),
+    isValid: () => true,
+    value: ({ now, representation }, args) =>
+      encode(formatLocalizedDate(now, args, dateFormat), representation),
   },
   {
+    // `[time]` or `[time:HH:mm]`
     id: 'time',
     label: () => 'time',
     token: 'time',
-    value: ({ now, representation }) => encode(now?.toLocaleTimeString(), representation),
+    isValid: () => true,
+    value: ({ now, representation }, args) =>
+      encode(formatLocalizedDate(now, args, timeFormat), representation),
   },
   {
     id: 'date-time',
     label: () => 'date+time',
     token: 'date+time',
     aliases: ['datetime', 'date time', 'date-time'],
-    value: ({ now, representation }) => encode(now?.toLocaleString(), representation),
+    isValid: () => true,
+    value: ({ now, representation }, args) =>
+      encode(formatLocalizedDate(now, args, dateTimeFormat), representation),
+  },
+  {
+    id: 'weekday',
+    label: () => 'weekday',
+    token: 'weekday',
+    value: ({ now, representation }) =>
+      encode(formatLocalizedDate(now, [], { weekday: 'long' }), representation),
+  },
+  {
+    id: 'iso-date-time',
+    label: () => 'ISO',
+    token: 'iso',
+    value: ({ now }) => (now ? formatIsoDate(now.date, now) : ''),
+  },
+  {
+    id: 'utc-date-time',
+    label: () => 'UTC',
+    token: 'utc',
+    value: ({ now }) => (now ? formatUtcDate(now.date) : ''),
+  },
+  {
+    id: 'unix-time',
+    label: () => 'unix time',
+    token: 'unix',
+    value: ({ now }) => (now ? `${Math.floor(now.date.getTime() / 1000)}` : ''),
   },
   {
     id: 'newline',
     label: () => 'NEWLINE',
     token: 'n',
     aliases: ['newline'],
+    unescaped: true,
+    html: true,
     value: ({ representation }) => (representation === 'html' ? '<br>\n' : '\n'),
   },
   {
@@ -176,6 +465,8 @@ const tokens = [
     label: () => 'TAB',
     token: 't',
     aliases: ['tab'],
+    unescaped: true,
+    html: true,
     value: ({ representation }) => (representation === 'html' ? '&#9;' : '\t'),
   },
   {
@@ -187,11 +478,62 @@ const tokens = [
   },
 ] as const satisfies Token[]
 
-// optimization: pre-calc regex for each token
-const tokensWithRegex = tokens.map((token) => ({
-  ...token,
-  regex: makeTokenRegExp([token]),
-}))
+export const tokenFilters = [
+  {
+    name: 'upper',
+    apply: (value) => value.toLocaleUpperCase(),
+  },
+  {
+    name: 'lower',
+    apply: (value) => value.toLocaleLowerCase(),
+  },
+  {
+    // `truncate:60` or `truncate:60:"..."`. the ellipsis counts toward the length.
+    name: 'truncate',
+    isValid: ([length, ellipsis, ...rest]) =>
+      /^\d+$/.test(length ?? '') && (ellipsis === undefined || !rest.length),
+    apply: (value, [length, ellipsis = '…']) => {
+      const maxLength = parseInt(length, 10)
+      const chars = Array.from(value) // avoid splitting surrogate pairs
+
+      if (chars.length <= maxLength) return value
+
+      const ellipsisChars = Array.from(ellipsis).slice(0, maxLength)
+
+      return `${chars.slice(0, maxLength - ellipsisChars.length).join('')}${ellipsisChars.join('')}`
+    },
+  },
+  {
+    name: 'urlencode',
+    apply: (value) => encodeURIComponent(value),
+  },
+  {
+    name: 'slug',
+    apply: (value) =>
+      value
+        .normalize('NFKD')
+        .replace(/[\u0300-\u036f]/g, '') // strip diacritics
+        .toLocaleLowerCase()
+        .replace(/[^\p{L}\p{N}]+/gu, '-')
+        .replace(/^-|-$/g, ''),
+  },
+  {
+    // `replace:"find":"replacement"`. replaces all occurrences. an omitted replacement removes matches.
+    name: 'replace',
+    isValid: ([find, ...rest]) => !!find && rest.length <= 1,
+    apply: (value, [find, replacement = '']) => value.split(find).join(replacement),
+  },
+  {
+    // a json string literal, including quotes
+    name: 'json',
+    apply: (value) => JSON.stringify(value),
+  },
+  {
+    // a csv field, quoted as needed
+    name: 'csv',
+    apply: (value) => stringifyCSVRow([value]),
+  },
+] as const satisfies TokenFilter[]
 
 export const templateFields = [
   {
@@ -203,6 +545,10 @@ export const templateFields = [
       'date',
       'time',
       'date-time',
+      'weekday',
+      'iso-date-time',
+      'utc-date-time',
+      'unix-time',
       'newline',
       'tabulator',
       'format-name',
@@ -215,6 +561,20 @@ export const templateFields = [
       'window-number',
       'window-count',
       'window-tab-count',
+      'window-id',
+      'newline',
+      'tabulator',
+    ),
+  },
+  {
+    id: 'groupStart',
+    label: () => intl.groupStart(),
+    tokens: selectTokens(
+      'group-title',
+      'group-color',
+      'group-collapsed',
+      'window-number',
+      'window-id',
       'newline',
       'tabulator',
     ),
@@ -229,16 +589,44 @@ export const templateFields = [
       'tab-link',
       'tab-url-schema',
       'tab-url-host',
+      'tab-url-domain',
+      'tab-url-subdomain',
+      'tab-url-port',
+      'tab-url-origin',
       'tab-url-path',
+      'tab-url-filename',
       'tab-url-query',
       'tab-url-hash',
       'tab-number',
       'window-tab-number',
       'window-number',
       'window-count',
+      'tab-pinned',
+      'tab-audible',
+      'tab-muted',
+      'tab-discarded',
+      'tab-incognito',
+      'tab-index',
+      'tab-last-accessed',
+      'tab-id',
+      'window-id',
+      'group-title',
+      'group-color',
+      'group-collapsed',
+      'page-description',
+      'page-og',
+      'page-canonical',
+      'page-author',
+      'page-published',
+      'page-selection',
+      'page-h1',
       'date',
       'time',
       'date-time',
+      'weekday',
+      'iso-date-time',
+      'utc-date-time',
+      'unix-time',
       'newline',
       'tabulator',
     ),
@@ -248,6 +636,19 @@ export const templateFields = [
     label: () => intl.tabDelimiter(),
     tokens: selectTokens('newline', 'tabulator'),
   },
+  {
+    id: 'groupEnd',
+    label: () => intl.groupEnd(),
+    tokens: selectTokens(
+      'group-title',
+      'group-color',
+      'group-collapsed',
+      'window-number',
+      'window-id',
+      'newline',
+      'tabulator',
+    ),
+  },
   {
     id: 'windowEnd',
     label: () => intl.windowEnd(),
@@ -255,6 +656,7 @@ export const templateFields = [
       'window-number',
       'window-count',
       'window-tab-count',
+      'window-id',
       'newline',
       'tabulator',
     ),
@@ -273,6 +675,10 @@ export const templateFields = [
       'date',
       'time',
       'date-time',
+      'weekday',
+      'iso-date-time',
+      'utc-date-time',
+      'unix-time',
       'newline',
       'tabulator',
       'format-name',
@@ -281,39 +687,330 @@ export const templateFields = [
 ] as const satisfies {
   id: string
   label: () => string
-  tokens: (typeof tokensWithRegex)[number][]
+  tokens: (typeof tokens)[number][]
 }[]
 
-function selectTokens<T extends (typeof tokensWithRegex)[number]['id'][]>(...ids: T) {
+function selectTokens<T extends (typeof tokens)[number]['id'][]>(...ids: T) {
   return ids
     .map(
       (id) =>
-        tokensWithRegex.find((token) => token.id === id) as Extract<
-          (typeof tokensWithRegex)[number],
+        tokens.find((token) => token.id === id) as Extract<
+          (typeof tokens)[number],
           { id: T[number] }
         >,
     )
     .filter(Boolean)
 }
 
-// creates a regular expression that matches one or more tokens, including aliases
-// first capture group captures padded token content. second capture group captures trimmed token content.
-export function makeTokenRegExp(tokens: Token[]) {
-  return new RegExp(
-    `\\[(\\s*(${tokens.flatMap(({ token, aliases = [] }) => [token, ...aliases].map((token) => regExEscape(token))).join('|')})\\s*)]`,
-    'g',
+// returns the token spec for a parsed template token, or undefined if the token is unrecognized, has invalid args, or has an unrecognized or invalid filter
+export function findToken<T extends Token>(tokens: T[], templateToken: TemplateToken) {
+  if (!templateToken.filters.every(isValidFilter)) return
+
+  return tokens.find(
+    (token: Token) =>
+      matchesTokenName(token, templateToken.name) &&
+      isValidTokenArgs(token, templateToken.args) &&
+      (!token.html || !templateToken.filters.length),
   )
 }
 
+// whether a token spec matches the name of a template token, including counter offsets
+export function matchesTokenName({ token, aliases = [], counter }: Token, name: string) {
+  const names = [token, ...aliases]
+
+  return names.includes(name) || (!!counter && names.includes(name.replace(rxCounterOffset, '')))
+}
+
+// whether a parsed template uses tokens that read page content
+export function usesPageTokens(tokens: Token[], template: TemplateNode[]): boolean {
+  return template.some((node) => {
+    switch (node.type) {
+      case 'token':
+        return !!findToken(tokens, node)?.page
+
+      case 'condition':
+        return (
+          !!findToken(tokens, node.token)?.page ||
+          usesPageTokens(tokens, node.then) ||
+          usesPageTokens(tokens, node.else)
+        )
+
+      default:
+        return false
+    }
+  })
+}
+
+// tokens for a custom format's variables. variables with invalid names are omitted.
+export function getVariableTokens(variables: TemplateVariable[]): Token[] {
+  return variables
+    .filter(({ name }) => isValidVariableName(name))
+    .map(({ name, value }) => ({
+      id: `variable-${name}`,
+      label: () => `@${name}`,
+      token: `@${name}`,
+      value: ({ representation }) => encode(value, representation),
+    }))
+}
+
+export function isValidVariableName(name: string) {
+  return /^[\p{L}\p{N}_-]+$/u.test(name)
+}
+
+// renders a parsed template. unrecognized tokens and conditional sections are rendered as text.
+export function renderTemplate(
+  tokens: Token[],
+  template: TemplateNode[],
+  sources: TokenValueSources = {},
+): string {
+  return template
+    .map((node) => {
+      switch (node.type) {
+        case 'token': {
+          const token = findToken(tokens, node)
+          return token ? getTokenValue(token, node, sources) : encodeText(node, sources)
+        }
+
+        case 'condition': {
+          const token = findToken(tokens, node.token)
+
+          if (!token) return encodeText(node, sources)
+
+          return renderTemplate(
+            tokens,
+            testToken(token, node.token, sources) !== node.negate ? node.then : node.else,
+            sources,
+          )
+        }
+
+        default:
+          return encodeText(node, sources)
+      }
+    })
+    .join('')
+}
+
+function getTokenValue(token: Token, templateToken: TemplateToken, sources: TokenValueSources) {
+  const escapeAs =
+    token.unescaped || (token.html && sources.representation === 'html')
+      ? 'none'
+      : (sources.escapeAs ?? 'none')
+
+  if (!templateToken.filters.length && escapeAs === 'none' && !token.counter) {
+    return token.value(sources, templateToken.args)
+  }
+
+  return encode(
+    escape(getFilteredTokenValue(token, templateToken, sources), escapeAs),
+    sources.representation,
+  )
+}
+
+// filters operate on the plain text value, which is then encoded as needed
+function getFilteredTokenValue(
+  token: Token,
+  { name, args, filters }: Pick<TemplateToken, 'name' | 'args' | 'filters'>,
+  sources: TokenValueSources,
+) {
+  const value = token.value({ ...sources, representation: 'text' }, args)
+
+  return filters.reduce(
+    (acc, { name, args }) => findFilter(name)?.apply(acc, args) ?? acc,
+    token.counter ? formatCounter(value, name, args) : value,
+  )
+}
+
+// filtered tokens test whether their filtered value is non-empty
+function testToken(token: Token, templateToken: TemplateToken, sources: TokenValueSources) {
+  if (!templateToken.filters.length && token.test) return token.test(sources)
+
+  return !!getFilteredTokenValue(token, templateToken, sources)
+}
+
+function encodeText({ text }: TemplateNode, { representation }: TokenValueSources) {
+  return encode(text, representation)
+}
+
+function findFilter(name: string): TokenFilter | undefined {
+  return tokenFilters.find((filter) => filter.name === name)
+}
+
+function isValidTokenArgs({ isValid, counter }: Token, args: string[]) {
+  if (counter) return !args.length || (args.length === 1 && rxCounterStyle.test(args[0]))
+
+  return isValid ? isValid(args) : !args.length
+}
+
+function isValidFilter({ name, args }: TemplateFilter) {
+  const filter = findFilter(name)
+
+  return !!filter && (filter.isValid ? filter.isValid(args) : !args.length)
+}
+
 export function getFieldTokens(fieldId: TemplateFieldId) {
   return templateFields.find(({ id }) => id === fieldId)?.tokens ?? []
 }
 
+// applies a counter's offset (eg `[t#+100]`) and its pad width (eg `[t#:03]`) or numbering style (`a`, `A`, `i`, or `I`)
+// - alphabetic and roman numbering fall back to decimal for numbers they cannot represent
+function formatCounter(value: string, name: string, [style]: string[]) {
+  if (!value) return ''
+
+  const offsetMatch = name.match(rxCounterOffset)
+  const offset = offsetMatch ? parseInt(`${offsetMatch[1]}${offsetMatch[2]}`, 10) : 0
+  const number = parseInt(value, 10) + offset
+
+  switch (style) {
+    case 'a':
+    case 'A':
+      return number > 0 ? toAlphabetic(number, style === 'A') : `${number}`
+
+    case 'i':
+    case 'I':
+      return number > 0 && number < 4000 ? toRoman(number, style === 'I') : `${number}`
+
+    default: {
+      const width = style ? parseInt(style, 10) : 0
+      return `${number < 0 ? '-' : ''}${`${Math.abs(number)}`.padStart(width, '0')}`
+    }
+  }
+}
+
+// 1 -> a, 26 -> z, 27 -> aa
+function toAlphabetic(number: number, upper: boolean) {
+  let text = ''
+
+  for (let n = number; n > 0; n = Math.floor((n - 1) / 26)) {
+    text = `${String.fromCharCode(97 + ((n - 1) % 26))}${text}`
+  }
+
+  return upper ? text.toUpperCase() : text
+}
+
+const romanNumerals: [number, string][] = [
+  [1000, 'm'],
+  [900, 'cm'],
+  [500, 'd'],
+  [400, 'cd'],
+  [100, 'c'],
+  [90, 'xc'],
+  [50, 'l'],
+  [40, 'xl'],
+  [10, 'x'],
+  [9, 'ix'],
+  [5, 'v'],
+  [4, 'iv'],
+  [1, 'i'],
+]
+
+function toRoman(number: number, upper: boolean) {
+  let text = ''
+  let n = number
+
+  for (const [value, numeral] of romanNumerals) {
+    for (; n >= value; n -= value) {
+      text += numeral
+    }
+  }
+
+  return upper ? text.toUpperCase() : text
+}
+
+export function isEscapeMode(value: string): value is EscapeMode {
+  return escapeModes.includes(value as EscapeMode)
+}
+
+// escapes a plain text token value, which is subsequently encoded for its representation
+function escape(value: string, escapeAs: EscapeMode) {
+  switch (escapeAs) {
+    case 'markdown':
+      return escapeMarkdownText(value)
+
+    case 'csv':
+      return stringifyCSVRow([value]) // quoted as needed
+
+    case 'json':
+      return JSON.stringify(value).slice(1, -1) // string content, without quotes
+
+    case 'xml':
+      return encodeHtml(value)
+
+    case 'shell':
+      return quoteShellArg(value)
+
+    default:
+      return value
+  }
+}
+
+// posix shell word, single-quoted as needed
+function quoteShellArg(value: string) {
+  return /^[\w@%+=:,./-]+$/.test(value) ? value : `'${value.replace(/'/g, `'\\''`)}'`
+}
+
 // stringifies a value with a special case for undefined
 function stringify(val: unknown) {
   return val === undefined ? '' : `${val}`
 }
 
+// registrable domain, falling back to the hostname for ip addresses and hosts without one (eg `localhost`)
+function getDomain(parsedUrl: URL | undefined) {
+  if (!parsedUrl) return ''
+
+  return getRegistrableDomain(parsedUrl.hostname) ?? parsedUrl.hostname
+}
+
+// labels of the hostname preceding the registrable domain, eg `www` for `www.example.com`
+function getSubdomain(parsedUrl: URL | undefined) {
+  const domain = parsedUrl && getRegistrableDomain(parsedUrl.hostname)
+
+  return domain ? parsedUrl.hostname.slice(0, -domain.length).replace(/\.$/, '') : ''
+}
+
+// opaque origins (eg of `data:` urls) serialize as `null`
+function getOrigin(parsedUrl: URL | undefined) {
+  const origin = parsedUrl?.origin
+  return origin && origin !== 'null' ? origin : ''
+}
+
+// decoded, non-empty path segments. urls with opaque paths (eg `mailto:` urls) have none.
+function getPathSegments(parsedUrl: URL | undefined) {
+  if (!parsedUrl?.pathname.startsWith('/')) return []
+
+  return parsedUrl.pathname.split('/').filter(Boolean).map(decodePathSegment)
+}
+
+// last path segment, which is empty for paths ending in `/`
+function getFilename(parsedUrl: URL | undefined) {
+  if (!parsedUrl?.pathname.startsWith('/')) return ''
+
+  return decodePathSegment(parsedUrl.pathname.slice(parsedUrl.pathname.lastIndexOf('/') + 1))
+}
+
+function decodePathSegment(segment: string) {
+  try {
+    return decodeURIComponent(segment)
+  } catch {
+    return segment
+  }
+}
+
+// formats a date with a pattern from token args (eg `[date:YYYY-MM-DD]`), or in the locale's default format
+// - `:` separates token args, so patterns containing `:` (eg `[time:HH:mm]`) are rejoined
+function formatLocalizedDate(
+  localizedDate: LocalizedDate | undefined,
+  args: string[],
+  defaultFormat: Intl.DateTimeFormatOptions,
+) {
+  if (!localizedDate) return ''
+
+  const { date, locale, timeZone } = localizedDate
+
+  return args.length
+    ? formatDate(date, args.join(':'), { locale, timeZone })
+    : date.toLocaleString(locale, { ...defaultFormat, timeZone })
+}
+
 function encode(value: string | null | undefined, representation: 'text' | 'html' = 'text') {
   return representation === 'html' // wrap
     ? encodeHtml(value ?? '')
@@ -0,0 +1,102 @@
+import { describe, expect, it } from 'vitest'
+
+import { lintTemplate, hasTemplateErrors, hasVariableErrors } from '@/template-lint'
+import { intl } from '@/intl'
+
+describe('lintTemplate', () => {
+  it('accepts valid tokens, filters, and sections', () => {
+    expect(
+      lintTemplate('tab', '[?title][title|truncate:60][?else][url][/?] [t#+100:03] [query:v]'),
+    ).toEqual([])
+  })
+
+  it('flags tokens unavailable in a field as errors', () => {
+    expect(lintTemplate('start', 'x [title]')).toEqual([
+      {
+        start: 2,
+        end: 9,
+        severity: 'error',
+        message: intl.tokenNotInField('[title]', intl.start()),
+      },
+    ])
+  })
+
+  it('flags unknown tokens as warnings, and as errors when tested by sections', () => {
+    expect(lintTemplate('tab', '[nope]')).toMatchObject([
+      { severity: 'warning', message: intl.unknownToken('[nope]') },
+    ])
+
+    expect(lintTemplate('tab', '[?nope]x[/?]')).toMatchObject([
+      { start: 0, end: 7, severity: 'error', message: intl.unknownToken('[nope]') },
+    ])
+  })
+
+  it('flags invalid token args and filters', () => {
+    expect(lintTemplate('tab', '[path:0]')).toMatchObject([
+      { severity: 'error', message: intl.invalidTokenArgs('[path]') },
+    ])
+
+    expect(lintTemplate('tab', '[title|uper]')).toMatchObject([
+      { severity: 'error', message: intl.unknownFilter('uper') },
+    ])
+
+    expect(lintTemplate('tab', '[title|truncate:x]')).toMatchObject([
+      { severity: 'error', message: intl.invalidFilterArgs('truncate') },
+    ])
+  })
+
+  it('flags filters on tokens with html values', () => {
+    expect(lintTemplate('tab', '[link|upper]')).toMatchObject([
+      { severity: 'error', message: intl.filtersNotSupported('[link]') },
+    ])
+  })
+
+  it('flags unbalanced sections', () => {
+    expect(lintTemplate('tab', '[?title]a')).toMatchObject([
+      { start: 0, end: 8, severity: 'error', message: intl.unclosedSection() },
+    ])
+
+    expect(lintTemplate('tab', 'a[?else]b[/?]')).toMatchObject([
+      { start: 1, end: 8, severity: 'error', message: intl.strayElse() },
+      { start: 9, end: 13, severity: 'error', message: intl.strayEnd() },
+    ])
+
+    expect(lintTemplate('tab', '[?title]a[?else]b[?else]c[/?]')).toMatchObject([
+      { start: 17, end: 24, severity: 'error', message: intl.strayElse() },
+    ])
+  })
+
+  it('flags unmatched brackets in text as warnings', () => {
+    expect(lintTemplate('tab', '[title] a] [b')).toEqual([
+      { start: 9, end: 10, severity: 'warning', message: intl.unmatchedBracket(']') },
+      { start: 11, end: 12, severity: 'warning', message: intl.unmatchedBracket('[') },
+    ])
+  })
+
+  it('accepts declared variables in every field', () => {
+    const variables = [{ name: 'project', value: 'x' }]
+
+    expect(lintTemplate('start', '[@project]', variables)).toEqual([])
+    expect(lintTemplate('start', '[@project]')).toMatchObject([{ severity: 'warning' }])
+  })
+})
+
+describe('hasTemplateErrors', () => {
+  it('ignores warnings', () => {
+    expect(hasTemplateErrors({ tab: '[nope] [title' })).toBe(false)
+    expect(hasTemplateErrors({ tab: '[title]', start: '[title]' })).toBe(true)
+  })
+})
+
+describe('hasVariableErrors', () => {
+  it('flags invalid and duplicate names', () => {
+    expect(hasVariableErrors([{ name: 'a-1', value: '' }])).toBe(false)
+    expect(hasVariableErrors([{ name: 'a b', value: '' }])).toBe(true)
+    expect(
+      hasVariableErrors([
+        { name: 'a', value: '' },
+        { name: 'a', value: '' },
+      ]),
+    ).toBe(true)
+  })
+})
@@ -0,0 +1,191 @@
+import {
+  templateFields,
+  getFieldTokens,
+  findToken,
+  matchesTokenName,
+  getVariableTokens,
+  isValidVariableName,
+  tokenFilters,
+  Token,
+  TokenFilter,
+  TemplateFieldId,
+  TemplateVariable,
+} from '@/template-field'
+import { tokenizeTemplate, getConditionTag, TemplateToken, TemplateText } from '@/template'
+import { intl } from '@/intl'
+
+// linter for custom format templates. it mirrors how templates render, so that anything that would silently render as literal text is flagged.
+// - errors are tokens and sections that can never render as intended: tokens unavailable in a field, invalid token args or filters, and unbalanced conditional sections
+// - warnings are bracketed text that may be intentional: unknown tokens and unmatched brackets
+
+export type TemplateIssue = {
+  start: number
+  end: number
+  severity: 'error' | 'warning'
+  message: string
+}
+
+type OpenSection = {
+  tag: TemplateToken
+  hasElse: boolean
+}
+
+// `variables` are the custom format's variables, which are available in every field
+export function lintTemplate(
+  fieldId: TemplateFieldId,
+  template: string,
+  variables: TemplateVariable[] = [],
+) {
+  const variableTokens = getVariableTokens(variables)
+  const issues: TemplateIssue[] = []
+  const sections: OpenSection[] = []
+  const brackets: number[] = [] // positions of unmatched `[` in text
+
+  for (const node of tokenizeTemplate(template)) {
+    if (node.type === 'text') {
+      lintBrackets(node, brackets, issues)
+      continue
+    }
+
+    const tag = getConditionTag(node)
+
+    switch (tag?.type) {
+      case 'if':
+        sections.push({ tag: node, hasElse: false })
+        issues.push(...lintToken(fieldId, variableTokens, tag.token, node, 'error'))
+        break
+
+      case 'else': {
+        const section = sections.at(-1)
+
+        if (section && !section.hasElse) {
+          section.hasElse = true
+        } else {
+          issues.push(getIssue(node, 'error', intl.strayElse()))
+        }
+        break
+      }
+
+      case 'end':
+        if (!sections.pop()) {
+          issues.push(getIssue(node, 'error', intl.strayEnd()))
+        }
+        break
+
+      default:
+        issues.push(...lintToken(fieldId, variableTokens, node, node, 'warning'))
+    }
+  }
+
+  for (const { tag } of sections) {
+    issues.push(getIssue(tag, 'error', intl.unclosedSection()))
+  }
+
+  for (const position of brackets) {
+    issues.push({
+      start: position,
+      end: position + 1,
+      severity: 'warning',
+      message: intl.unmatchedBracket('['),
+    })
+  }
+
+  return issues.sort((a, b) => a.start - b.start)
+}
+
+// whether any field of a template has errors
+export function hasTemplateErrors(
+  template: Partial<Record<TemplateFieldId, string>>,
+  variables: TemplateVariable[] = [],
+) {
+  return templateFields.some(({ id }) =>
+    lintTemplate(id, template[id] ?? '', variables).some(({ severity }) => severity === 'error'),
+  )
+}
+
+// whether any variable has an invalid or duplicate name
+export function hasVariableErrors(variables: TemplateVariable[]) {
+  return variables.some(
+    ({ name }, i) =>
+      !isValidVariableName(name) || variables.findIndex((variable) => variable.name === name) !== i,
+  )
+}
+
+// `span` is the node flagged, which differs from `token` for conditional section tags
+// - `unknownSeverity` is the severity of unknown tokens. unknown tokens tested by conditional sections are errors because they cause the whole section to render as text.
+function lintToken(
+  fieldId: TemplateFieldId,
+  variableTokens: Token[],
+  token: TemplateToken,
+  span: TemplateToken,
+  unknownSeverity: TemplateIssue['severity'],
+): TemplateIssue[] {
+  const fieldTokens: Token[] = [...getFieldTokens(fieldId), ...variableTokens]
+
+  if (findToken(fieldTokens, token)) return []
+
+  const text = `[${token.name}]`
+
+  if (!fieldTokens.some((fieldToken) => matchesTokenName(fieldToken, token.name))) {
+    const isKnown = templateFields.some(({ tokens }) =>
+      tokens.some((fieldToken: Token) => matchesTokenName(fieldToken, token.name)),
+    )
+
+    return [
+      isKnown
+        ? getIssue(span, 'error', intl.tokenNotInField(text, getFieldLabel(fieldId)))
+        : getIssue(span, unknownSeverity, intl.unknownToken(text)),
+    ]
+  }
+
+  for (const { name, args } of token.filters) {
+    const filter: TokenFilter | undefined = tokenFilters.find(
+      (tokenFilter) => tokenFilter.name === name,
+    )
+
+    if (!filter) {
+      return [getIssue(span, 'error', intl.unknownFilter(name))]
+    }
+
+    if (filter.isValid ? !filter.isValid(args) : args.length) {
+      return [getIssue(span, 'error', intl.invalidFilterArgs(name))]
+    }
+  }
+
+  if (
+    token.filters.length &&
+    fieldTokens.some((fieldToken) => fieldToken.html && matchesTokenName(fieldToken, token.name))
+  ) {
+    return [getIssue(span, 'error', intl.filtersNotSupported(text))]
+  }
+
+  return [getIssue(span, 'error', intl.invalidTokenArgs(text))]
+}
+
+// `]` without a preceding `[` is flagged immediately. unmatched `[` positions are collected in `brackets` until the end of the template.
+function lintBrackets({ text, start }: TemplateText, brackets: number[], issues: TemplateIssue[]) {
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === '[') {
+      brackets.push(start + i)
+    } else if (text[i] === ']' && brackets.pop() === undefined) {
+      issues.push({
+        start: start + i,
+        end: start + i + 1,
+        severity: 'warning',
+        message: intl.unmatchedBracket(']'),
+      })
+    }
+  }
+}
+
+function getFieldLabel(fieldId: TemplateFieldId) {
+  return templateFields.find(({ id }) => id === fieldId)?.label() ?? fieldId
+}
+
+function getIssue(
+  { start, end }: TemplateToken,
+  severity: TemplateIssue['severity'],
+  message: string,
+): TemplateIssue {
+  return { start, end, severity, message }
+}
@@ -0,0 +1,150 @@
+import { describe, expect, it } from 'vitest'
+
+import { parseTemplate, tokenizeTemplate, getConditionTag, TemplateToken } from '@/template'
+
+describe('tokenizeTemplate', () => {
+  it('splits text and tokens with source positions', () => {
+    expect(tokenizeTemplate('a [title] b')).toEqual([
+      { type: 'text', text: 'a ', start: 0, end: 2 },
+      {
+        type: 'token',
+        text: '[title]',
+        start: 2,
+        end: 9,
+        name: 'title',
+        args: [],
+        filters: [],
+      },
+      { type: 'text', text: ' b', start: 9, end: 11 },
+    ])
+  })
+
+  it('parses args and chained filters with args', () => {
+    const [token] = tokenizeTemplate('[date:YYYY-MM-DD|replace:"-":"/"|upper]')
+
+    expect(token).toMatchObject({
+      name: 'date',
+      args: ['YYYY-MM-DD'],
+      filters: [
+        { name: 'replace', args: ['-', '/'] },
+        { name: 'upper', args: [] },
+      ],
+    })
+  })
+
+  it('keeps special chars and whitespace in quoted args', () => {
+    const [token] = tokenizeTemplate('[title|replace:" | a:b] ":"\\"x\\""]')
+
+    expect(token).toMatchObject({
+      filters: [{ name: 'replace', args: [' | a:b] ', '"x"'] }],
+    })
+  })
+
+  it('trims unquoted args', () => {
+    const [token] = tokenizeTemplate('[ title | truncate: 60 ]')
+
+    expect(token).toMatchObject({
+      name: 'title',
+      filters: [{ name: 'truncate', args: ['60'] }],
+    })
+  })
+
+  it.each(['[]', '[title|]', '[title:"x"y]', '[title:"x]', '[a\nb]', '[title', 'x]'])(
+    'keeps %j as text',
+    (template) => {
+      expect(tokenizeTemplate(template)).toEqual([
+        { type: 'text', text: template, start: 0, end: template.length },
+      ])
+    },
+  )
+
+  it('treats quotes within an unquoted arg as literal', () => {
+    expect(tokenizeTemplate('[replace:a "b"]')[0]).toMatchObject({
+      type: 'token',
+      args: ['a "b"'],
+    })
+  })
+
+  it('parses a token after an unmatched bracket', () => {
+    const nodes = tokenizeTemplate('[[title]')
+
+    expect(nodes.map(({ type, text }) => [type, text])).toEqual([
+      ['text', '['],
+      ['token', '[title]'],
+    ])
+  })
+})
+
+describe('getConditionTag', () => {
+  const getTag = (template: string) =>
+    getConditionTag(tokenizeTemplate(template)[0] as TemplateToken)
+
+  it('recognizes section tags', () => {
+    expect(getTag('[?title]')).toMatchObject({
+      type: 'if',
+      negate: false,
+      token: { name: 'title' },
+    })
+    expect(getTag('[?!pinned]')).toMatchObject({
+      type: 'if',
+      negate: true,
+      token: { name: 'pinned' },
+    })
+    expect(getTag('[?else]')).toEqual({ type: 'else' })
+    expect(getTag('[/?]')).toEqual({ type: 'end' })
+  })
+
+  it('keeps args and filters of tested tokens', () => {
+    expect(getTag('[?query:v|upper]')).toMatchObject({
+      type: 'if',
+      token: { name: 'query', args: ['v'], filters: [{ name: 'upper', args: [] }] },
+    })
+  })
+
+  it('ignores tokens that are not section tags', () => {
+    expect(getTag('[title]')).toBeUndefined()
+    expect(getTag('[/?:x]')).toBeUndefined()
+  })
+})
+
+describe('parseTemplate', () => {
+  it('nests conditional sections with else branches', () => {
+    const [section] = parseTemplate('[?title]a[?pinned]b[/?][?else]c[/?]')
+
+    expect(section).toMatchObject({
+      type: 'condition',
+      text: '[?title]a[?pinned]b[/?][?else]c[/?]',
+      token: { name: 'title' },
+      negate: false,
+      then: [
+        { type: 'text', text: 'a' },
+        { type: 'condition', token: { name: 'pinned' }, then: [{ text: 'b' }], else: [] },
+      ],
+      else: [{ type: 'text', text: 'c' }],
+    })
+  })
+
+  it('keeps unclosed sections and stray tags as flat nodes', () => {
+    expect(parseTemplate('[?title]a[?else]b').map(({ text }) => text)).toEqual([
+      '[?title]',
+      'a',
+      '[?else]',
+      'b',
+    ])
+
+    expect(parseTemplate('a[/?][?else]').map(({ type, text }) => [type, text])).toEqual([
+      ['text', 'a'],
+      ['token', '[/?]'],
+      ['token', '[?else]'],
+    ])
+  })
+
+  it('keeps a second else branch as a token', () => {
+    const [section] = parseTemplate('[?title]a[?else]b[?else]c[/?]')
+
+    expect(section).toMatchObject({
+      type: 'condition',
+      else: [{ text: 'b' }, { type: 'token', text: '[?else]' }, { text: 'c' }],
+    })
+  })
+})
@@ -0,0 +1,268 @@
+// parser for custom format templates
+// - a token is enclosed in brackets and consists of a name, optional `:`-separated args, and optional `|`-separated filters, each with their own args, eg `[title|truncate:60|replace:" - YouTube":""]`
+// - args may be double-quoted to include `:`, `|`, `]`, or leading/trailing spaces. within quotes, `\` escapes the next char.
+// - bracketed text that does not parse as a token is kept as text. whether a parsed token is recognized is up to the consumer (see template-field.ts), which keeps unrecognized tokens as text.
+// - conditional sections render their content only if a token has a value, eg `[?title]([title])[/?]`. `[?!title]` negates the test, and `[?else]` starts an optional else branch. sections may be nested. unclosed sections and stray `[?else]` and `[/?]` tags are kept as text.
+
+export type TemplateNode = TemplateText | TemplateToken | TemplateCondition
+
+export type TemplateText = {
+  type: 'text'
+  text: string
+  start: number
+  end: number
+}
+
+export type TemplateToken = {
+  type: 'token'
+  text: string // source text, including brackets
+  start: number // index of `[`
+  end: number // index after `]`
+  name: string
+  args: string[]
+  filters: TemplateFilter[]
+}
+
+export type TemplateFilter = {
+  name: string
+  args: string[]
+}
+
+export type TemplateCondition = {
+  type: 'condition'
+  text: string // source text, from the opening tag through the closing tag
+  start: number
+  end: number
+  token: TemplateToken // tested token
+  negate: boolean
+  then: TemplateNode[]
+  else: TemplateNode[]
+}
+
+type ConditionTag =
+  | { type: 'if'; token: TemplateToken; negate: boolean } // wrap
+  | { type: 'else' }
+  | { type: 'end' }
+
+// in-progress conditional section
+type ConditionFrame = {
+  openTag: TemplateToken
+  token: TemplateToken
+  negate: boolean
+  then: TemplateNode[]
+  elseTag?: TemplateToken
+  else: TemplateNode[]
+}
+
+// returns a tree of text, tokens, and conditional sections
+export function parseTemplate(template: string) {
+  const nodes: TemplateNode[] = []
+  const stack: ConditionFrame[] = []
+
+  const getSiblings = () => {
+    const frame = stack.at(-1)
+    return frame ? (frame.elseTag ? frame.else : frame.then) : nodes
+  }
+
+  for (const node of tokenizeTemplate(template)) {
+    const tag = node.type === 'token' ? getConditionTag(node) : undefined
+    const frame = stack.at(-1)
+
+    if (tag?.type === 'if' && node.type === 'token') {
+      stack.push({ openTag: node, token: tag.token, negate: tag.negate, then: [], else: [] })
+    } else if (tag?.type === 'else' && node.type === 'token' && frame && !frame.elseTag) {
+      frame.elseTag = node
+    } else if (tag?.type === 'end' && frame) {
+      stack.pop()
+
+      getSiblings().push({
+        type: 'condition',
+        text: template.slice(frame.openTag.start, node.end),
+        start: frame.openTag.start,
+        end: node.end,
+        token: frame.token,
+        negate: frame.negate,
+        then: frame.then,
+        else: frame.else,
+      })
+    } else {
+      getSiblings().push(node)
+    }
+  }
+
+  // unclosed sections are kept as text
+  while (stack.length) {
+    const { openTag, then, elseTag, else: elseNodes } = stack.pop()!
+
+    getSiblings().push(
+      openTag,
+      ...then,
+      ...(elseTag ? [elseTag, ...elseNodes] : []), // wrap
+    )
+  }
+
+  return nodes
+}
+
+// returns the conditional section tag represented by a token, if any
+export function getConditionTag({
+  name,
+  args,
+  filters,
+  ...rest
+}: TemplateToken): ConditionTag | undefined {
+  if (name === '/?' && !args.length && !filters.length) {
+    return { type: 'end' }
+  }
+
+  if (name === '?else' && !args.length && !filters.length) {
+    return { type: 'else' }
+  }
+
+  const match = name.match(/^\?\s*(!?)\s*(.+)$/)
+
+  if (match) {
+    return {
+      type: 'if',
+      token: { ...rest, name: match[2], args, filters },
+      negate: !!match[1],
+    }
+  }
+}
+
+// returns a flat list of text and tokens
+export function tokenizeTemplate(template: string) {
+  const nodes: (TemplateText | TemplateToken)[] = []
+
+  let textStart = 0
+  let i = 0
+
+  while (i < template.length) {
+    const token = template[i] === '[' ? parseToken(template, i) : undefined
+
+    if (token) {
+      if (textStart < i) {
+        nodes.push(getTextNode(template, textStart, i))
+      }
+
+      nodes.push(token)
+      textStart = i = token.end
+    } else {
+      i++
+    }
+  }
+
+  if (textStart < template.length) {
+    nodes.push(getTextNode(template, textStart, template.length))
+  }
+
+  return nodes
+}
+
+// parses a token starting at the `[` at `start`. returns undefined if the text does not parse as a token.
+function parseToken(template: string, start: number): TemplateToken | undefined {
+  const segments: string[][] = [[]] // name and args, followed by each filter's name and args
+  let arg = ''
+  let argQuoted = false
+
+  for (let i = start + 1; i < template.length; i++) {
+    const char = template[i]
+
+    switch (char) {
+      case '"': {
+        // quotes are only special at the start of an arg; elsewhere they are literal
+        if (argQuoted) return
+
+        if (arg.trim()) {
+          arg += char
+          break
+        }
+
+        const quoted = parseQuoted(template, i)
+
+        if (!quoted) return
+
+        arg = quoted.value
+        argQuoted = true
+        i = quoted.end - 1
+        break
+      }
+
+      case ':':
+      case '|':
+      case ']':
+        segments[segments.length - 1].push(argQuoted ? arg : arg.trim())
+        arg = ''
+        argQuoted = false
+
+        if (char === '|') {
+          segments.push([])
+        } else if (char === ']') {
+          return getTokenNode(template, start, i + 1, segments)
+        }
+        break
+
+      case '[':
+      case '\n':
+        return
+
+      default:
+        if (argQuoted) {
+          // only whitespace may follow a quoted arg
+          if (char.trim()) return
+        } else {
+          arg += char
+        }
+    }
+  }
+}
+
+// parses a double-quoted string starting at the `"` at `start`
+function parseQuoted(template: string, start: number) {
+  let value = ''
+
+  for (let i = start + 1; i < template.length; i++) {
+    const char = template[i]
+
+    if (char === '\\' && i + 1 < template.length) {
+      value += template[++i]
+    } else if (char === '"') {
+      return { value, end: i + 1 }
+    } else {
+      value += char
+    }
+  }
+}
+
+function getTokenNode(
+  template: string,
+  start: number,
+  end: number,
+  segments: string[][],
+): TemplateToken | undefined {
+  const [[name, ...args], ...filterSegments] = segments
+
+  if (!name || filterSegments.some(([filterName]) => !filterName)) return
+
+  return {
+    type: 'token',
+    text: template.slice(start, end),
+    start,
+    end,
+    name,
+    args,
+    filters: filterSegments.map(([filterName, ...filterArgs]) => ({
+      name: filterName,
+      args: filterArgs,
+    })),
+  }
+}
+
+function getTextNode(template: string, start: number, end: number): TemplateText {
+  return {
+    type: 'text',
+    text: template.slice(start, end),
+    start,
+    end,
+  }
+}
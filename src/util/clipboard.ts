@@ -1,13 +1,11 @@
 import {
   // wrap
-  // isNxsMimeContent,
+  isNxsMimeContent,
   WEB_NXS_MIME_TYPE,
   NxsMimeContent,
 } from './nxs-mime-type'
 import { hasNavigatorPermission } from './permissions'
-// import { jsonParse } from './json'
-
-// todo: uncomment read functions when needed
+import { jsonParse } from './json'
 
 export type Representations = {
   text: string
@@ -100,31 +98,31 @@ export function legacyClipboardWrite(
   }
 }
 
-// export async function clipboardReadNxs() {
-//   const blob = await clipboardRead(WEB_NXS_MIME_TYPE)
+export async function clipboardReadNxs() {
+  const blob = await clipboardRead(WEB_NXS_MIME_TYPE)
 
-//   if (blob === null) return null // no clipboard read access
+  if (blob === null) return null // no clipboard read access
 
-//   if (blob) {
-//     const content = jsonParse(await blob.text())
-//     if (isNxsMimeContent(content)) return content
-//   }
-// }
+  if (blob) {
+    const content = jsonParse(await blob.text())
+    if (isNxsMimeContent(content)) return content
+  }
+}
 
-// // return null if clipboard access is not granted. return undefined if clipboard access is granted but read fails.
-// export async function clipboardRead(mimeType: string = 'text/plain') {
-//   const hasReadAccess = await hasClipboardReadAccess()
+// return null if clipboard access is not granted. return undefined if clipboard access is granted but read fails.
+export async function clipboardRead(mimeType: string = 'text/plain') {
+  const hasReadAccess = await hasClipboardReadAccess()
 
-//   if (!hasReadAccess) return null
+  if (!hasReadAccess) return null
 
-//   try {
-//     const clipboardItems = await navigator.clipboard.read()
-//     const item = clipboardItems.find((item) => item.types.includes(mimeType))
-//     return item?.getType(mimeType)
-//   } catch (ex) {
-//     console.error('failed to read clipboard', ex)
-//   }
-// }
+  try {
+    const clipboardItems = await navigator.clipboard.read()
+    const item = clipboardItems.find((item) => item.types.includes(mimeType))
+    return item?.getType(mimeType)
+  } catch (ex) {
+    console.error('failed to read clipboard', ex)
+  }
+}
 
 function hasClipboardReadAccess() {
   return hasNavigatorPermission(
@@ -1,4 +1,4 @@
-type FieldValue = string | number | null
+export type FieldValue = string | number | null
 type Row = FieldValue[]
 
 type CSVModel = {
@@ -7,17 +7,30 @@ type CSVModel = {
   error?: string
 }
 
+export const csvDelimiters = [',', ';', '\t'] as const
+
+export type CSVDelimiter = (typeof csvDelimiters)[number]
+
+export const csvQuotings = ['minimal', 'always'] as const
+
+export type CSVQuoting = (typeof csvQuotings)[number]
+
+export type CSVStringifyOpts = {
+  delimiter?: CSVDelimiter
+  quoting?: CSVQuoting // 'minimal' quotes only string values that need it; 'always' quotes every non-empty value
+}
+
 const QUOTE_CHAR = '"'
-const DELIMITER = ','
+const DEFAULT_DELIMITER: CSVDelimiter = ','
 const NEWLINE = /\r?\n/g
 
 const rxIsInt = /^-?\d+$/
 const rxIsFloat = /^-?\d*\.\d+$|^\d+\.\d*$/
 
 // If a string has leading or trailing space,
-// or contains a comma, double quote, or a newline
+// or contains the delimiter, double quote, or a newline
 // it needs to be quoted in CSV output
-const rxNeedsQuoting = /^\s|\s$|,|"|\n/
+const rxNeedsQuoting = /^\s|\s$|"|\r|\n/
 
 // assumes header row exists
 export const CSVError = 'CSVError'
@@ -25,12 +38,12 @@ export const noRowsCSVError = 'noRowsCSVError'
 export const CSVNoDataError = 'CSVNoDataError'
 export const badHeaderError = 'badHeaderError'
 
-export const parseCSV = (csv: string): CSVModel => {
+export const parseCSV = (csv: string, delimiter: CSVDelimiter = DEFAULT_DELIMITER): CSVModel => {
   if (!csv.replace(/\s+/g, '').replace(NEWLINE, '').length) {
     return { error: CSVNoDataError }
   } else {
     try {
-      const parsedCSV = parse(csv)
+      const parsedCSV = parse(csv, delimiter)
       const records = parsedCSV.slice(1)
       if (!records.length) {
         return { error: noRowsCSVError }
@@ -50,11 +63,22 @@ export const parseCSV = (csv: string): CSVModel => {
   }
 }
 
-export const stringifyCSV = (csvModel: CSVModel) => {
-  return stringifyCSVRows([
-    ...(csvModel.fields ? [csvModel.fields] : []),
-    ...(csvModel.records ?? []),
-  ])
+export const stringifyCSV = (csvModel: CSVModel, opts?: CSVStringifyOpts) => {
+  return stringifyCSVRows(
+    [
+      // wrap
+      ...(csvModel.fields ? [csvModel.fields] : []),
+      ...(csvModel.records ?? []),
+    ],
+    opts,
+  )
+}
+
+// returns the first supported delimiter found in the header row, favoring the least common delimiters
+export const detectCSVDelimiter = (csv: string): CSVDelimiter => {
+  const header = csv.trimStart().split(NEWLINE, 1)[0]
+
+  return (['\t', ';'] as const).find((delimiter) => header.includes(delimiter)) ?? DEFAULT_DELIMITER
 }
 
 // 2022-02-02 below code is adapted from https://github.com/okfn/csv.js
@@ -80,7 +104,7 @@ export const stringifyCSV = (csvModel: CSVModel) => {
 // OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN CONNECTION
 // WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
 
-export const parse = (input: string): Row[] => {
+export const parse = (input: string, delimiter: CSVDelimiter = DEFAULT_DELIMITER): Row[] => {
   input = input.replace(NEWLINE, '\n').trim()
 
   let currentChar = ''
@@ -93,7 +117,7 @@ export const parse = (input: string): Row[] => {
   for (let i = 0; i < input.length; i++) {
     currentChar = input.charAt(i)
 
-    if (inQuote === false && (currentChar === DELIMITER || currentChar === '\n')) {
+    if (inQuote === false && (currentChar === delimiter || currentChar === '\n')) {
       // at end of a field
       currentRow.push(normalizeField(currentField, fieldQuoted))
 
@@ -150,23 +174,32 @@ export const parse = (input: string): Row[] => {
   }
 }
 
-export const stringifyCSVRows = (rows: Row[]) => rows.map((row) => stringifyCSVRow(row)).join('\n')
+export const stringifyCSVRows = (rows: Row[], opts?: CSVStringifyOpts) =>
+  rows.map((row) => stringifyCSVRow(row, opts)).join('\n')
 
-export const stringifyCSVRow = (row: Row) =>
-  row.map((val) => stringifyFieldValue(val)).join(DELIMITER)
+export const stringifyCSVRow = (
+  row: Row,
+  { delimiter = DEFAULT_DELIMITER, quoting = 'minimal' }: CSVStringifyOpts = {},
+) => row.map((val) => stringifyFieldValue(val, delimiter, quoting)).join(delimiter)
 
-function stringifyFieldValue(fieldValue: FieldValue): string {
+function stringifyFieldValue(
+  fieldValue: FieldValue,
+  delimiter: CSVDelimiter,
+  quoting: CSVQuoting,
+): string {
   if (fieldValue == null) {
     return ''
   }
 
-  if (typeof fieldValue === 'string' && rxNeedsQuoting.test(fieldValue)) {
-    return `"${fieldValue.replace(/"/g, '""')}"`
-  }
+  const value = typeof fieldValue === 'number' ? fieldValue.toString(10) : fieldValue
 
-  if (typeof fieldValue === 'number') {
-    return fieldValue.toString(10)
+  if (
+    quoting === 'always' ||
+    (typeof fieldValue === 'string' &&
+      (rxNeedsQuoting.test(fieldValue) || fieldValue.includes(delimiter)))
+  ) {
+    return `"${value.replace(/"/g, '""')}"`
   }
 
-  return fieldValue
+  return value
 }
@@ -0,0 +1,188 @@
+// date formatting in a given locale and time zone. an undefined locale or time zone falls back to the browser's.
+
+export type DateFormatOpts = {
+  locale?: string
+  timeZone?: string // IANA time zone, eg `America/New_York`
+}
+
+export type LocalizedDate = DateFormatOpts & {
+  date: Date
+}
+
+type DateParts = {
+  year: number
+  month: number // 1-12
+  day: number
+  hour: number // 0-23
+  minute: number
+  second: number
+  millisecond: number
+  offset: number // minutes east of utc
+}
+
+// pattern tokens, similar to moment.js. other chars are kept as-is.
+// - YYYY YY: year; MMMM MMM MM M: month; DD D: day of month; dddd ddd: weekday
+// - HH H: 24-hour; hh h: 12-hour; A a: am/pm; mm m: minute; ss s: second; SSS: millisecond
+// - Z: utc offset (+02:00); ZZ: utc offset (+0200)
+// - text in single quotes is kept as-is, eg `'at'`. `''` is a single quote.
+const rxPatternToken =
+  /'[^']*'|YYYY|YY|MMMM|MMM|MM|M|DD|D|dddd|ddd|HH|H|hh|h|A|a|mm|m|ss|s|SSS|ZZ|Z/g
+
+// optimization: reuse formatters, which are expensive to create
+const partsFormatters = new Map<string | undefined, Intl.DateTimeFormat>()
+
+export function formatDate(date: Date, pattern: string, opts: DateFormatOpts = {}) {
+  const parts = getDateParts(date, opts.timeZone)
+
+  return pattern.replace(rxPatternToken, (token) => {
+    if (token.startsWith("'")) {
+      return token.length > 2 ? token.slice(1, -1) : "'"
+    }
+
+    switch (token) {
+      case 'YYYY':
+        return pad(parts.year, 4)
+      case 'YY':
+        return pad(parts.year % 100, 2)
+      case 'MMMM':
+        return formatDateField(date, { month: 'long' }, opts)
+      case 'MMM':
+        return formatDateField(date, { month: 'short' }, opts)
+      case 'MM':
+        return pad(parts.month, 2)
+      case 'M':
+        return `${parts.month}`
+      case 'DD':
+        return pad(parts.day, 2)
+      case 'D':
+        return `${parts.day}`
+      case 'dddd':
+        return formatDateField(date, { weekday: 'long' }, opts)
+      case 'ddd':
+        return formatDateField(date, { weekday: 'short' }, opts)
+      case 'HH':
+        return pad(parts.hour, 2)
+      case 'H':
+        return `${parts.hour}`
+      case 'hh':
+        return pad(parts.hour % 12 || 12, 2)
+      case 'h':
+        return `${parts.hour % 12 || 12}`
+      case 'A':
+        return parts.hour < 12 ? 'AM' : 'PM'
+      case 'a':
+        return parts.hour < 12 ? 'am' : 'pm'
+      case 'mm':
+        return pad(parts.minute, 2)
+      case 'm':
+        return `${parts.minute}`
+      case 'ss':
+        return pad(parts.second, 2)
+      case 's':
+        return `${parts.second}`
+      case 'SSS':
+        return pad(parts.millisecond, 3)
+      case 'ZZ':
+        return formatOffset(parts.offset, '')
+      default:
+        return formatOffset(parts.offset, ':')
+    }
+  })
+}
+
+// iso 8601 with the time zone's utc offset, eg `2024-10-17T16:05:32+02:00`
+export function formatIsoDate(date: Date, { timeZone }: DateFormatOpts = {}) {
+  return formatDate(date, 'YYYY-MM-DDTHH:mm:ssZ', { timeZone })
+}
+
+// iso 8601 in utc, eg `2024-10-17T14:05:32Z`
+export function formatUtcDate(date: Date) {
+  return date.toISOString().replace(/\.\d+Z$/, 'Z')
+}
+
+export function isValidLocale(locale: string) {
+  try {
+    Intl.DateTimeFormat.supportedLocalesOf(locale)
+    return true
+  } catch {
+    return false
+  }
+}
+
+export function isValidTimeZone(timeZone: string) {
+  try {
+    new Intl.DateTimeFormat(undefined, { timeZone })
+    return true
+  } catch {
+    return false
+  }
+}
+
+function getDateParts(date: Date, timeZone?: string): DateParts {
+  let formatter = partsFormatters.get(timeZone)
+
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+    })
+
+    partsFormatters.set(timeZone, formatter)
+  }
+
+  const values = Object.fromEntries(
+    formatter
+      .formatToParts(date)
+      .filter(({ type }) => type !== 'literal')
+      .map(({ type, value }) => [type, parseInt(value, 10)]),
+  )
+
+  const hour = values.hour % 24 // some engines format midnight as 24
+  const millisecond = date.getUTCMilliseconds()
+
+  // the offset is the difference between the zoned wall time read as utc and the actual time
+  const wallTime = Date.UTC(
+    values.year,
+    values.month - 1,
+    values.day,
+    hour,
+    values.minute,
+    values.second,
+    millisecond,
+  )
+
+  return {
+    year: values.year,
+    month: values.month,
+    day: values.day,
+    hour,
+    minute: values.minute,
+    second: values.second,
+    millisecond,
+    offset: Math.round((wallTime - date.getTime()) / 60000),
+  }
+}
+
+function formatDateField(
+  date: Date,
+  field: Intl.DateTimeFormatOptions,
+  { locale, timeZone }: DateFormatOpts,
+) {
+  return new Intl.DateTimeFormat(locale, { ...field, timeZone }).format(date)
+}
+
+function formatOffset(offset: number, separator: string) {
+  const absOffset = Math.abs(offset)
+
+  return `${offset < 0 ? '-' : '+'}${pad(Math.floor(absOffset / 60), 2)}${separator}${pad(absOffset % 60, 2)}`
+}
+
+function pad(value: number, length: number) {
+  return `${value}`.padStart(length, '0')
+}
@@ -27,6 +27,7 @@ export const getSpan = getElement<HTMLSpanElement>
 export const getDiv = getElement<HTMLDivElement>
 export const getButton = getElement<HTMLButtonElement>
 export const getTextArea = getElement<HTMLTextAreaElement>
+export const getInput = getElement<HTMLInputElement>
 
 // inserts text at the current cursor position of an input element. replaces any selection.
 // sets cursor position to end of inserted text, adjusting for passed cursorOffset
@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'vitest'
+
+import { getRegistrableDomain } from '@/util/domain'
+
+describe('getRegistrableDomain', () => {
+  it.each([
+    ['example.com', 'example.com'],
+    ['www.example.com', 'example.com'],
+    ['news.bbc.co.uk', 'bbc.co.uk'],
+    ['WWW.Example.COM.', 'example.com'],
+    ['user.github.io', 'user.github.io'], // private suffix
+    ['a.b.example.unknowntld', 'example.unknowntld'], // default `*` rule
+    ['a.b.kawasaki.jp', 'a.b.kawasaki.jp'], // wildcard rule
+    ['www.city.kawasaki.jp', 'city.kawasaki.jp'], // exception rule
+    ['www.ck', 'www.ck'],
+    ['a.example.ck', 'a.example.ck'],
+    [new URL('http://a.例子.公司.cn').hostname, new URL('http://例子.公司.cn').hostname], // punycode
+  ])('%s -> %s', (hostname, domain) => {
+    expect(getRegistrableDomain(hostname)).toBe(domain)
+  })
+
+  it.each(['', 'com', 'co.uk', 'github.io', 'example.ck', '127.0.0.1', '[::1]'])(
+    'has none for %j',
+    (hostname) => {
+      expect(getRegistrableDomain(hostname)).toBeUndefined()
+    },
+  )
+})
@@ -0,0 +1,87 @@
+import publicSuffixList from './public_suffix_list.dat?raw'
+
+// registrable domain lookup per https://github.com/publicsuffix/list/wiki/Format
+// - the bundled list is https://publicsuffix.org/list/public_suffix_list.dat and can be replaced with a newer copy as-is
+// - hostnames are expected in the ascii form provided by `URL`, so internationalized rules are converted to punycode
+
+type PublicSuffixRules = {
+  rules: Set<string>
+  wildcards: Set<string> // `*.ck` is stored as `ck`
+  exceptions: Set<string> // `!www.ck` is stored as `www.ck`
+}
+
+// optimization: the list is parsed on first use
+let publicSuffixRules: PublicSuffixRules | undefined
+
+// returns the registrable domain of a hostname (eTLD+1, eg `bbc.co.uk` for `news.bbc.co.uk`), or undefined if the hostname is an ip address or a public suffix itself
+export function getRegistrableDomain(hostname: string) {
+  if (!hostname || isIpAddress(hostname)) return
+
+  const labels = hostname.toLowerCase().replace(/\.$/, '').split('.')
+  const suffixLength = getPublicSuffixLength(labels)
+
+  if (labels.length <= suffixLength) return
+
+  return labels.slice(-suffixLength - 1).join('.')
+}
+
+// returns the number of labels in the public suffix of a hostname's labels
+function getPublicSuffixLength(labels: string[]) {
+  const { rules, wildcards, exceptions } = getPublicSuffixRules()
+
+  // the default rule `*` matches any tld
+  let length = 1
+
+  for (let i = labels.length - 1; i >= 0; i--) {
+    const suffix = labels.slice(i).join('.')
+
+    // exception rules take precedence and exclude their leftmost label
+    if (exceptions.has(suffix)) return labels.length - i - 1
+
+    if (rules.has(suffix)) {
+      length = labels.length - i
+    }
+
+    if (i > 0 && wildcards.has(suffix)) {
+      length = labels.length - i + 1
+    }
+  }
+
+  return length
+}
+
+function getPublicSuffixRules() {
+  if (!publicSuffixRules) {
+    publicSuffixRules = { rules: new Set(), wildcards: new Set(), exceptions: new Set() }
+
+    for (const line of publicSuffixList.split('\n')) {
+      const rule = line.trim()
+
+      if (!rule || rule.startsWith('//')) continue
+
+      if (rule.startsWith('!')) {
+        publicSuffixRules.exceptions.add(toAscii(rule.slice(1)))
+      } else if (rule.startsWith('*.')) {
+        publicSuffixRules.wildcards.add(toAscii(rule.slice(2)))
+      } else {
+        publicSuffixRules.rules.add(toAscii(rule))
+      }
+    }
+  }
+
+  return publicSuffixRules
+}
+
+function toAscii(domain: string) {
+  if (/^[\x00-\x7f]*$/.test(domain)) return domain
+
+  try {
+    return new URL(`http://${domain}`).hostname
+  } catch {
+    return domain
+  }
+}
+
+function isIpAddress(hostname: string) {
+  return hostname.startsWith('[') || /^\d+\.\d+\.\d+\.\d+$/.test(hostname)
+}
@@ -1,5 +1,41 @@
+import { encodeHtml } from '@/util/string'
+
 export function jsonParse(text: string) {
   try {
     return JSON.parse(text)
   } catch (ex) {}
 }
+
+const rxJsonToken =
+  /("(?:\\.|[^"\\])*")(\s*:)?|\b(?:true|false|null)\b|-?\d+(?:\.\d+)?(?:[eE][+-]?\d+)?/g
+
+const jsonTokenColors = {
+  key: '#9a3e9a',
+  string: '#22863a',
+  number: '#005cc5',
+  literal: '#d73a49',
+}
+
+// returns html with inline-styled spans so highlighting survives pasting into rich text editors
+export function highlightJson(json: string) {
+  let html = ''
+  let lastIndex = 0
+
+  for (const match of json.matchAll(rxJsonToken)) {
+    const [token, string, colon] = match
+
+    const color = string
+      ? colon
+        ? jsonTokenColors.key
+        : jsonTokenColors.string
+      : /^[tfn]/.test(token)
+        ? jsonTokenColors.literal
+        : jsonTokenColors.number
+
+    html += `${encodeHtml(json.slice(lastIndex, match.index))}<span style="color: ${color}">${encodeHtml(string ?? token)}</span>${colon ?? ''}`
+
+    lastIndex = match.index! + token.length
+  }
+
+  return `${html}${encodeHtml(json.slice(lastIndex))}`
+}
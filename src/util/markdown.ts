@@ -0,0 +1,83 @@
+export const markdownFlavors = ['commonmark', 'gfm', 'obsidian', 'slack'] as const
+
+export type MarkdownFlavor = (typeof markdownFlavors)[number]
+
+export const markdownListStyles = ['none', 'bullet', 'numbered', 'task'] as const
+
+export type MarkdownListStyle = (typeof markdownListStyles)[number]
+
+// chars with inline meaning in link text, per flavor. slack mrkdwn uses html entities instead of backslash escapes.
+// - commonmark: https://spec.commonmark.org/0.31.2/#backslash-escapes
+// - gfm adds `|` (tables) and `~` (strikethrough)
+// - obsidian adds `=` (highlight), `#` (tags), `%` (comments), and `^` (block references)
+const rxSpecialChars: { [k in Exclude<MarkdownFlavor, 'slack'>]: RegExp } = {
+  commonmark: /[\\`*_[\]<>&]/g,
+  gfm: /[\\`*_[\]<>&|~]/g,
+  obsidian: /[\\`*_[\]<>&|~=#%^]/g,
+}
+
+// escapes text for use as link text
+export function escapeMarkdownText(text: string, flavor: MarkdownFlavor = 'commonmark') {
+  if (flavor === 'slack') {
+    return encodeSlackEntities(text)
+  }
+
+  return text.replace(/\s+/g, ' ').replace(rxSpecialChars[flavor], '\\$&')
+}
+
+// escapes a url for use as a link destination
+export function escapeMarkdownUrl(url: string, flavor: MarkdownFlavor = 'commonmark') {
+  if (flavor === 'slack') {
+    // `|` separates url from link text
+    return encodeSlackEntities(url).replace(/\|/g, '%7C')
+  }
+
+  const encoded = url.replace(/[\s<>]/g, (char) => encodeURIComponent(char))
+
+  // obsidian does not reliably honor backslash escapes in link destinations
+  return flavor === 'obsidian'
+    ? encoded.replace(/[()]/g, (char) => encodeURIComponent(char))
+    : encoded.replace(/[\\()]/g, '\\$&')
+}
+
+export function getMarkdownLink(text: string, url: string, flavor: MarkdownFlavor = 'commonmark') {
+  return flavor === 'slack'
+    ? `<${escapeMarkdownUrl(url, flavor)}|${escapeMarkdownText(text, flavor)}>`
+    : `[${escapeMarkdownText(text, flavor)}](${escapeMarkdownUrl(url, flavor)})`
+}
+
+// slack mrkdwn does not support headings, so bold text is used instead
+export function getMarkdownHeading(
+  text: string,
+  level: number,
+  flavor: MarkdownFlavor = 'commonmark',
+) {
+  return flavor === 'slack'
+    ? `*${escapeMarkdownText(text, flavor)}*`
+    : `${'#'.repeat(Math.min(Math.max(level, 1), 6))} ${escapeMarkdownText(text, flavor)}`
+}
+
+// slack mrkdwn does not support list syntax, so plain text markers are used instead
+export function getMarkdownListMarker(
+  style: MarkdownListStyle,
+  seq: number,
+  flavor: MarkdownFlavor = 'commonmark',
+) {
+  switch (style) {
+    case 'bullet':
+      return flavor === 'slack' ? '• ' : '- '
+
+    case 'numbered':
+      return `${seq}. `
+
+    case 'task':
+      return flavor === 'slack' ? '☐ ' : '- [ ] '
+
+    default:
+      return ''
+  }
+}
+
+function encodeSlackEntities(text: string) {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;')
+}
@@ -0,0 +1,88 @@
+// link, heading, and list syntax for wiki and lightweight markup languages other than markdown (see markdown.ts)
+
+export const markups = ['org', 'asciidoc', 'rst', 'mediawiki', 'jira', 'textile'] as const
+
+export type Markup = (typeof markups)[number]
+
+type MarkupSyntax = {
+  link: (text: string, url: string) => string
+  heading: (text: string, level: number) => string // level 1 or 2
+  listMarker: string
+}
+
+const syntaxes: { [k in Markup]: MarkupSyntax } = {
+  // https://orgmode.org/manual/Link-Format.html
+  // - `]]` ends a link, so brackets are percent-encoded in urls. descriptions do not support escapes, so their brackets become parens.
+  org: {
+    link: (text, url) =>
+      `[[${encodeChars(url, /[\s[\]]/g)}][${text.replace(/\[/g, '(').replace(/\]/g, ')')}]]`,
+    heading: (text, level) => `${'*'.repeat(level)} ${text}`,
+    listMarker: '- ',
+  },
+
+  // https://docs.asciidoctor.org/asciidoc/latest/macros/url-macro/
+  // - urls with schemes asciidoctor does not autolink require the `link:` macro prefix
+  // - link text containing `=` is parsed as attributes unless quoted
+  asciidoc: {
+    link: (text, url) => {
+      const escapedText = text.replace(/\]/g, '\\]')
+
+      return `${/^(https?|ftp|irc|mailto):/i.test(url) ? '' : 'link:'}${encodeChars(
+        url,
+        /[\s[\]]/g,
+      )}[${escapedText.includes('=') ? `"${escapedText.replace(/"/g, '\\"')}"` : escapedText}]`
+    },
+    heading: (text, level) => `${'='.repeat(level + 1)} ${text}`,
+    listMarker: '* ',
+  },
+
+  // https://docutils.sourceforge.io/docs/ref/rst/restructuredtext.html#embedded-uris-and-aliases
+  rst: {
+    link: (text, url) =>
+      `\`${text.replace(/[\\`<>]/g, '\\$&')} <${encodeChars(url, /[\s`<>]/g)}>\`_`,
+    heading: (text, level) => `${text}\n${(level === 1 ? '=' : '-').repeat(text.length)}`,
+    listMarker: '- ',
+  },
+
+  // https://www.mediawiki.org/wiki/Help:Links#External_links
+  // - link text chars that would start wiki markup (templates, bold/italic, signatures, nested links) are entity-encoded
+  mediawiki: {
+    link: (text, url) =>
+      `[${encodeChars(url, /[\s[\]<>"]/g)} ${text.replace(/[[\]<>'{}~|&]/g, (char) => `&#${char.charCodeAt(0)};`)}]`,
+    heading: (text, level) => `${'='.repeat(level + 1)} ${text} ${'='.repeat(level + 1)}`,
+    listMarker: '* ',
+  },
+
+  // https://jira.atlassian.com/secure/WikiRendererHelpAction.jspa?section=links
+  jira: {
+    link: (text, url) =>
+      `[${text.replace(/[\\[\]|{}*_+^~!?-]/g, '\\$&')}|${encodeChars(url, /[\s[\]|]/g)}]`,
+    heading: (text, level) => `h${level + 1}. ${text}`,
+    listMarker: '* ',
+  },
+
+  // https://textile-lang.com/doc/links
+  // - textile has no escape char for `"`, but passes html entities through
+  textile: {
+    link: (text, url) =>
+      `"${text.replace(/[&<>"*_]/g, (char) => `&#${char.charCodeAt(0)};`)}":${encodeChars(url, /[\s"]/g)}`,
+    heading: (text, level) => `h${level + 1}. ${text}`,
+    listMarker: '* ',
+  },
+}
+
+export function getMarkupLink(markup: Markup, text: string, url: string) {
+  return syntaxes[markup].link(text.replace(/\s+/g, ' '), url)
+}
+
+export function getMarkupHeading(markup: Markup, text: string, level = 1) {
+  return syntaxes[markup].heading(text, level)
+}
+
+export function getMarkupListMarker(markup: Markup) {
+  return syntaxes[markup].listMarker
+}
+
+function encodeChars(text: string, rx: RegExp) {
+  return text.replace(rx, (char) => encodeURIComponent(char))
+}
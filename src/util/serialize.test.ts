@@ -0,0 +1,143 @@
+import { describe, expect, it } from 'vitest'
+
+import {
+  serializeJson,
+  serializeNdjson,
+  serializeYaml,
+  serializeXml,
+  serializeToml,
+} from '@/util/serialize'
+
+const tabs = [
+  { title: 'A: b', url: 'https://a.com/', pinned: true, groupId: undefined },
+  { title: 'true', url: 'https://b.com/?q=1#x', pinned: false, groupId: null },
+]
+
+describe('serializeJson', () => {
+  it('serializes compact or indented json, and undefined as null', () => {
+    expect(serializeJson({ a: [1] })).toBe('{"a":[1]}')
+    expect(serializeJson({ a: 1 }, 2)).toBe('{\n  "a": 1\n}')
+    expect(serializeJson(undefined)).toBe('null')
+  })
+
+  it('serializes one value per line as ndjson', () => {
+    expect(serializeNdjson([{ a: 1 }, 'b'])).toBe('{"a":1}\n"b"')
+  })
+})
+
+describe('serializeYaml', () => {
+  it('serializes block sequences and mappings, omitting undefined properties', () => {
+    expect(serializeYaml({ windows: [{ id: 1, tabs }], empty: [], none: {} })).toBe(
+      [
+        'windows:',
+        '  - id: 1',
+        '    tabs:',
+        '      - title: "A: b"',
+        '        url: https://a.com/',
+        '        pinned: true',
+        '      - title: "true"',
+        '        url: https://b.com/?q=1#x',
+        '        pinned: false',
+        '        groupId: null',
+        'empty: []',
+        'none: {}',
+      ].join('\n'),
+    )
+  })
+
+  it('quotes strings only when a plain scalar would be misread', () => {
+    const quoted = [
+      '',
+      ' a',
+      'a ',
+      '- a',
+      '#a',
+      'a #b',
+      'a:',
+      'null',
+      'No',
+      '1.5',
+      '1e3',
+      '0x1f',
+      '.inf',
+    ]
+    const plain = ['a', 'a-b', 'a:b', 'a#b', 'https://a.com/#x', '1.2.3', 'nullable']
+
+    for (const value of quoted) {
+      expect(serializeYaml(value)).toBe(JSON.stringify(value))
+    }
+
+    for (const value of plain) {
+      expect(serializeYaml(value)).toBe(value)
+    }
+
+    expect(serializeYaml('a\nb')).toBe('"a\\nb"')
+  })
+})
+
+describe('serializeXml', () => {
+  it('serializes arrays as repeated singular elements', () => {
+    expect(serializeXml('tabs', tabs)).toBe(
+      [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        '<tabs>',
+        '  <tab>',
+        '    <title>A: b</title>',
+        '    <url>https://a.com/</url>',
+        '    <pinned>true</pinned>',
+        '  </tab>',
+        '  <tab>',
+        '    <title>true</title>',
+        '    <url>https://b.com/?q=1#x</url>',
+        '    <pinned>false</pinned>',
+        '    <groupId/>',
+        '  </tab>',
+        '</tabs>',
+      ].join('\n'),
+    )
+  })
+
+  it('encodes text and sanitizes element names', () => {
+    expect(serializeXml('root', { '1 a': '<a> & b\u0001', data: [1], x: {} })).toBe(
+      [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        '<root>',
+        '  <_1_a>&lt;a&gt; &amp; b</_1_a>',
+        '  <data>',
+        '    <dataItem>1</dataItem>',
+        '  </data>',
+        '  <x/>',
+        '</root>',
+      ].join('\n'),
+    )
+  })
+})
+
+describe('serializeToml', () => {
+  it('serializes tables and arrays of tables, omitting nulls', () => {
+    expect(serializeToml({ format: 'x', window: { id: 1 }, tabs })).toBe(
+      [
+        'format = "x"',
+        '',
+        '[window]',
+        'id = 1',
+        '',
+        '[[tabs]]',
+        'title = "A: b"',
+        'url = "https://a.com/"',
+        'pinned = true',
+        '',
+        '[[tabs]]',
+        'title = "true"',
+        'url = "https://b.com/?q=1#x"',
+        'pinned = false',
+      ].join('\n'),
+    )
+  })
+
+  it('serializes inline arrays and tables, and quotes keys as needed', () => {
+    expect(serializeToml({ 'a b': [1, null, 'x'], c: [{ d: 1 }, 2] })).toBe(
+      '"a b" = [1, "x"]\nc = [{ d = 1 }, 2]',
+    )
+  })
+})
@@ -0,0 +1,228 @@
+import { indent } from '@/util/string'
+
+// serializers for structured data formats. values are plain data: objects, arrays, strings, finite numbers, booleans, and null.
+// - object properties with undefined values are omitted
+
+export type SerializableValue =
+  | string
+  | number
+  | boolean
+  | null
+  | undefined
+  | SerializableValue[]
+  | { [key: string]: SerializableValue }
+
+type SerializableObject = { [key: string]: SerializableValue }
+
+// --- json
+
+export function serializeJson(value: SerializableValue, indentSize = 0) {
+  return JSON.stringify(value, undefined, indentSize) ?? 'null'
+}
+
+// one compact json value per line (https://github.com/ndjson/ndjson-spec)
+export function serializeNdjson(values: SerializableValue[]) {
+  return values.map((value) => serializeJson(value)).join('\n')
+}
+
+// --- yaml
+
+// block-style yaml 1.2. strings are quoted only when a plain scalar would be misread.
+export function serializeYaml(value: SerializableValue, indentSize = 2): string {
+  if (Array.isArray(value)) {
+    if (!value.length) return '[]'
+
+    return value.map((item) => `-${getYamlBlock(item, indentSize, true)}`).join('\n')
+  }
+
+  if (isObject(value)) {
+    const entries = getDefinedEntries(value)
+
+    if (!entries.length) return '{}'
+
+    return entries
+      .map(([key, val]) => `${getYamlString(key)}:${getYamlBlock(val, indentSize, false)}`)
+      .join('\n')
+  }
+
+  return getYamlScalar(value)
+}
+
+// returns the part of a sequence item or mapping entry that follows `-` or `key:`
+function getYamlBlock(value: SerializableValue, indentSize: number, isSequenceItem: boolean) {
+  if (isCollection(value) && !isEmptyCollection(value)) {
+    const block = serializeYaml(value, indentSize)
+
+    // mappings in sequence items start on the same line as `-`
+    if (isSequenceItem && isObject(value)) {
+      return ` ${indentTail(block, indentSize)}`
+    }
+
+    return `\n${indent(block, indentSize)}`
+  }
+
+  return ` ${serializeYaml(value, indentSize)}`
+}
+
+function getYamlScalar(value: SerializableValue) {
+  if (typeof value === 'string') return getYamlString(value)
+  if (value == null) return 'null'
+
+  return `${value}`
+}
+
+function getYamlString(value: string) {
+  return rxYamlNeedsQuoting.test(value) || rxYamlReserved.test(value)
+    ? JSON.stringify(value) // json strings are valid yaml double-quoted scalars
+    : value
+}
+
+// empty, leading indicator char, leading or trailing space, `: ` or ` #`, trailing `:`, or control chars
+const rxYamlNeedsQuoting = /^$|^[-?:,[\]{}#&*!|>'"%@`\s]|\s$|: |\s#|:$|[\u0000-\u001f\u007f]/
+
+// plain scalars that yaml parsers resolve to non-strings
+const rxYamlReserved =
+  /^(?:~|null|true|false|yes|no|on|off|[-+]?(?:\d[\d_]*(?:\.\d*)?|\.\d+)(?:e[-+]?\d+)?|[-+]?\.(?:inf|nan)|0x[\da-f]+|0o[0-7]+)$/i
+
+// --- xml
+
+// arrays are serialized as repeated child elements named by the singular form of their key (eg `tabs` -> `tab`)
+export function serializeXml(rootName: string, value: SerializableValue, indentSize = 2) {
+  return `<?xml version="1.0" encoding="UTF-8"?>\n${getXmlElement(rootName, value, indentSize)}`
+}
+
+function getXmlElement(name: string, value: SerializableValue, indentSize: number): string {
+  if (value === undefined) return ''
+
+  if (Array.isArray(value)) {
+    const itemName = getSingular(name)
+
+    return getXmlContainer(
+      name,
+      value.map((item) => getXmlElement(itemName, item, indentSize)),
+      indentSize,
+    )
+  }
+
+  if (isObject(value)) {
+    return getXmlContainer(
+      name,
+      getDefinedEntries(value).map(([key, val]) => getXmlElement(getXmlName(key), val, indentSize)),
+      indentSize,
+    )
+  }
+
+  return value === null
+    ? `<${name}/>` // wrap
+    : `<${name}>${encodeXml(`${value}`)}</${name}>`
+}
+
+function getXmlContainer(name: string, children: string[], indentSize: number) {
+  const content = children.filter(Boolean).join('\n')
+
+  return content // wrap
+    ? `<${name}>\n${indent(content, indentSize)}\n</${name}>`
+    : `<${name}/>`
+}
+
+// element names cannot start with a digit or contain most punctuation
+function getXmlName(key: string) {
+  const name = key.replace(/[^\w.-]/g, '_')
+  return /^[a-z_]/i.test(name) ? name : `_${name}`
+}
+
+function encodeXml(text: string) {
+  return (
+    text
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      // chars not allowed in xml 1.0 documents
+      .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, '')
+  )
+}
+
+// --- toml
+
+// toml documents are tables, so the root value must be an object. nested objects become [tables] and arrays of objects become [[arrays of tables]].
+export function serializeToml(value: SerializableObject) {
+  return getTomlTable(value, [])
+}
+
+function getTomlTable(table: SerializableObject, path: string[]): string {
+  const entries = getDefinedEntries(table).filter(([, val]) => val !== null) // toml has no null
+
+  const keyValues = entries
+    .filter(([, val]) => !isObject(val) && !isArrayOfObjects(val))
+    .map(([key, val]) => `${getTomlKey(key)} = ${getTomlValue(val)}`)
+
+  const subtables = entries.flatMap(([key, val]) => {
+    const subpath = [...path, getTomlKey(key)]
+
+    if (isObject(val)) {
+      return [`[${subpath.join('.')}]\n${getTomlTable(val, subpath)}`.trimEnd()]
+    }
+
+    if (isArrayOfObjects(val)) {
+      return val.map((item) => `[[${subpath.join('.')}]]\n${getTomlTable(item, subpath)}`.trimEnd())
+    }
+
+    return []
+  })
+
+  return [keyValues.join('\n'), ...subtables].filter(Boolean).join('\n\n')
+}
+
+function getTomlValue(value: SerializableValue): string {
+  if (Array.isArray(value)) {
+    return `[${value
+      .filter((item) => item != null)
+      .map(getTomlValue)
+      .join(', ')}]`
+  }
+
+  if (isObject(value)) {
+    return `{ ${getDefinedEntries(value)
+      .filter(([, val]) => val !== null)
+      .map(([key, val]) => `${getTomlKey(key)} = ${getTomlValue(val)}`)
+      .join(', ')} }`
+  }
+
+  // json strings are valid toml basic strings
+  return typeof value === 'string' ? JSON.stringify(value) : `${value}`
+}
+
+function getTomlKey(key: string) {
+  return /^[\w-]+$/.test(key) ? key : JSON.stringify(key)
+}
+
+function isArrayOfObjects(value: SerializableValue): value is SerializableObject[] {
+  return Array.isArray(value) && value.length > 0 && value.every(isObject)
+}
+
+// --- helpers
+
+function isObject(value: SerializableValue): value is SerializableObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function isCollection(value: SerializableValue) {
+  return Array.isArray(value) || isObject(value)
+}
+
+function isEmptyCollection(value: SerializableValue) {
+  return Array.isArray(value) ? !value.length : isObject(value) && !getDefinedEntries(value).length
+}
+
+function getDefinedEntries(obj: SerializableObject) {
+  return Object.entries(obj).filter(([, val]) => val !== undefined)
+}
+
+function getSingular(name: string) {
+  return name.endsWith('s') && name.length > 1 ? name.slice(0, -1) : `${name}Item`
+}
+
+// indents all lines but the first
+function indentTail(text: string, indentSize: number) {
+  return text.replace(/\n/g, `\n${' '.repeat(indentSize)}`)
+}
@@ -1,4 +1,5 @@
-import { TabScopeId, ScopeId } from '@/scope'
+import { BuiltinTabScopeId, OpenWindowScopeId, BuiltinScopeId } from '@/scope'
+import { getRegistrableDomain } from '@/util/domain'
 
 const filterImpactingTabProps: (keyof chrome.tabs.Tab)[] = [
   // wrap
@@ -6,30 +7,53 @@ const filterImpactingTabProps: (keyof chrome.tabs.Tab)[] = [
   'url',
   'title',
   'groupId',
+  'discarded',
+  'audible',
 ]
 
 export type TabPredicate = (tab: chrome.tabs.Tab) => boolean
 
+export type TabFilter = {
+  predicate?: TabPredicate
+  applyToHighlightedTabs?: boolean // `highlighted-tabs` scope is not subject to filtering by default
+}
+
 // - excludes tabs without URL (possible?)
 // - excludes windows without tabs (possible with filter)
 // - may return empty array
-export async function getWindowsAndTabs(filter?: TabPredicate) {
+export async function getWindowsAndTabs({ predicate }: TabFilter = {}) {
   const windows = await chrome.windows.getAll({ populate: true })
 
   return windows
     .map((win) => ({
       ...win,
-      tabs: (win.tabs ?? []).filter((tab) => tab.url && (!filter || filter(tab))),
+      tabs: (win.tabs ?? []).filter((tab) => tab.url && (!predicate || predicate(tab))),
     }))
     .filter(({ tabs }) => tabs.length)
 }
 
-// - ignores filter for scope `highlighted-tabs`
+// - excludes windows without tabs (possible with filter)
+// - may return empty array
+export async function getWindows(
+  scopeId: OpenWindowScopeId = 'all-windows-and-tabs',
+  filter: TabFilter = {},
+) {
+  const windows = await getWindowsAndTabs(filter)
+
+  return scopeId === 'other-windows' // wrap
+    ? getOtherWindows(windows)
+    : windows
+}
+
+// - ignores filter for scope `highlighted-tabs` unless `applyToHighlightedTabs` is set
 // - may return empty array
-export async function getTabs(scopeId: TabScopeId = 'all-tabs', filter?: TabPredicate) {
-  if (scopeId === 'all-tabs') {
+export async function getTabs(scopeId: BuiltinTabScopeId = 'all-tabs', filter: TabFilter = {}) {
+  if (scopeId === 'all-tabs' || scopeId === 'audible-tabs') {
     const { allTabs } = await getWindowsAndAllTabs(filter)
-    return allTabs
+
+    return scopeId === 'audible-tabs' // wrap
+      ? getAudibleTabs(allTabs)
+      : allTabs
   }
 
   const { unfilteredWindowTabs, filteredWindowTabs } = await getWindowTabs(filter)
@@ -38,24 +62,43 @@ export async function getTabs(scopeId: TabScopeId = 'all-tabs', filter?: TabPred
     return filteredWindowTabs
   }
 
-  // `highlighted-tabs` scope is not subject to filtering
-  return unfilteredWindowTabs.filter(({ highlighted }) => !!highlighted)
+  if (scopeId === 'group-tabs') {
+    return getGroupTabs(unfilteredWindowTabs, filteredWindowTabs)
+  }
+
+  if (scopeId === 'left-tabs' || scopeId === 'right-tabs') {
+    return getSideTabs(unfilteredWindowTabs, filteredWindowTabs, scopeId)
+  }
+
+  if (scopeId === 'domain-tabs') {
+    const { allTabs } = await getWindowsAndAllTabs(filter)
+    return getDomainTabs(unfilteredWindowTabs, allTabs)
+  }
+
+  return getHighlightedTabs(unfilteredWindowTabs, filteredWindowTabs, filter)
 }
 
-// gets counts for all scopes
-// - `all-windows-and-tabs` is window count
-// - `highlighted-tabs` is not subject to filtering
+// gets counts for all builtin scopes of open tabs
+// - `all-windows-and-tabs` is window count. `other-windows` is tab count.
+// - `highlighted-tabs` is not subject to filtering unless `applyToHighlightedTabs` is set
 export async function getWindowAndTabCounts(
-  filter?: TabPredicate,
-): Promise<{ [k in ScopeId]: number }> {
+  filter: TabFilter = {},
+): Promise<{ [k in Exclude<BuiltinScopeId, 'recently-closed'>]: number }> {
   const { windows, allTabs } = await getWindowsAndAllTabs(filter)
   const { unfilteredWindowTabs, filteredWindowTabs } = await getWindowTabs(filter)
-  const highlightedTabs = unfilteredWindowTabs.filter(({ highlighted }) => !!highlighted)
+  const highlightedTabs = getHighlightedTabs(unfilteredWindowTabs, filteredWindowTabs, filter)
+  const otherWindows = await getOtherWindows(windows)
 
   return {
     'highlighted-tabs': highlightedTabs.length,
+    'left-tabs': getSideTabs(unfilteredWindowTabs, filteredWindowTabs, 'left-tabs').length,
+    'right-tabs': getSideTabs(unfilteredWindowTabs, filteredWindowTabs, 'right-tabs').length,
     'window-tabs': filteredWindowTabs.length,
+    'group-tabs': getGroupTabs(unfilteredWindowTabs, filteredWindowTabs).length,
+    'domain-tabs': getDomainTabs(unfilteredWindowTabs, allTabs).length,
+    'audible-tabs': getAudibleTabs(allTabs).length,
     'all-tabs': allTabs.length,
+    'other-windows': otherWindows.flatMap(({ tabs }) => tabs).length,
     'all-windows-and-tabs': windows.length,
   }
 }
@@ -106,6 +149,30 @@ export function onTabCountChanged(callback: () => void, debounce = 500) {
   }
 }
 
+// groups tabs into windows by windowId, preserving tab order. used where a window structure is needed for tab-only scopes.
+// - windows are not populated with window props other than id and incognito
+export function groupTabsByWindow(tabs: chrome.tabs.Tab[]): chrome.windows.Window[] {
+  const windows = new Map<number, chrome.windows.Window>()
+
+  for (const tab of tabs) {
+    const win = windows.get(tab.windowId)
+
+    if (win) {
+      win.tabs!.push(tab)
+    } else {
+      windows.set(tab.windowId, {
+        id: tab.windowId,
+        focused: false,
+        alwaysOnTop: false,
+        incognito: tab.incognito,
+        tabs: [tab],
+      })
+    }
+  }
+
+  return [...windows.values()]
+}
+
 let itemId = 1
 
 // used for previews
@@ -140,6 +207,7 @@ export function getDummyTab({
   index = 0,
   windowId = 1,
   active = false,
+  groupId = -1,
 }: {
   id?: number
   title?: string
@@ -148,6 +216,7 @@ export function getDummyTab({
   index?: number
   windowId?: number
   active?: boolean
+  groupId?: number
 } = {}): chrome.tabs.Tab {
   return {
     id,
@@ -163,23 +232,98 @@ export function getDummyTab({
     incognito: false,
     discarded: false,
     autoDiscardable: false,
-    groupId: -1,
+    groupId,
   }
 }
 
-async function getWindowsAndAllTabs(filter?: TabPredicate) {
+async function getWindowsAndAllTabs(filter?: TabFilter) {
   const windows = await getWindowsAndTabs(filter)
   const allTabs = windows.flatMap(({ tabs }) => tabs).filter((tab) => !!tab)
 
   return { windows, allTabs }
 }
 
-async function getWindowTabs(filter?: TabPredicate) {
+// tabs in the tab group of the current window's active tab
+// - empty if the active tab is not in a group
+function getGroupTabs(
+  unfilteredWindowTabs: chrome.tabs.Tab[],
+  filteredWindowTabs: chrome.tabs.Tab[],
+) {
+  const groupId = unfilteredWindowTabs.find(({ active }) => active)?.groupId ?? -1
+
+  return groupId === -1 // wrap
+    ? []
+    : filteredWindowTabs.filter((tab) => tab.groupId === groupId)
+}
+
+// tabs to the left or right of the current window's active tab
+function getSideTabs(
+  unfilteredWindowTabs: chrome.tabs.Tab[],
+  filteredWindowTabs: chrome.tabs.Tab[],
+  scopeId: Extract<BuiltinTabScopeId, 'left-tabs' | 'right-tabs'>,
+) {
+  const activeTab = unfilteredWindowTabs.find(({ active }) => active)
+
+  if (!activeTab) return []
+
+  return filteredWindowTabs.filter(({ index }) =>
+    scopeId === 'left-tabs' // wrap
+      ? index < activeTab.index
+      : index > activeTab.index,
+  )
+}
+
+// tabs in all windows on the registrable domain of the current window's active tab, eg `news.example.com` and `www.example.com`
+// - hosts without a registrable domain, like `localhost`, must match exactly
+// - empty if the active tab has no host, eg a `file:` URL
+function getDomainTabs(unfilteredWindowTabs: chrome.tabs.Tab[], allTabs: chrome.tabs.Tab[]) {
+  const domain = getTabDomain(unfilteredWindowTabs.find(({ active }) => active))
+
+  return domain // wrap
+    ? allTabs.filter((tab) => getTabDomain(tab) === domain)
+    : []
+}
+
+function getTabDomain(tab?: chrome.tabs.Tab) {
+  try {
+    const { hostname } = new URL(tab?.url ?? '')
+    return getRegistrableDomain(hostname) ?? hostname
+  } catch {
+    return ''
+  }
+}
+
+function getAudibleTabs(allTabs: chrome.tabs.Tab[]) {
+  return allTabs.filter(({ audible }) => !!audible)
+}
+
+// windows other than the current window
+async function getOtherWindows(windows: chrome.windows.Window[]) {
+  const currentWindow = await chrome.windows.getCurrent()
+  return windows.filter(({ id }) => id !== currentWindow.id)
+}
+
+// - returns an empty array in browsers without tab groups
+export async function getTabGroups() {
+  return chrome.tabGroups ? chrome.tabGroups.query({}) : []
+}
+
+function getHighlightedTabs(
+  unfilteredWindowTabs: chrome.tabs.Tab[],
+  filteredWindowTabs: chrome.tabs.Tab[],
+  { applyToHighlightedTabs }: TabFilter,
+) {
+  return (applyToHighlightedTabs ? filteredWindowTabs : unfilteredWindowTabs).filter(
+    ({ highlighted }) => !!highlighted,
+  )
+}
+
+async function getWindowTabs({ predicate }: TabFilter = {}) {
   const unfilteredWindowTabs = (await chrome.tabs.query({ currentWindow: true })).filter(
     (tab) => tab.url,
   )
 
-  const filteredWindowTabs = unfilteredWindowTabs.filter((tab) => !filter || filter(tab))
+  const filteredWindowTabs = unfilteredWindowTabs.filter((tab) => !predicate || predicate(tab))
 
   return { unfilteredWindowTabs, filteredWindowTabs }
 }
@@ -1,11 +1,13 @@
-import { isFormatId, isCustomFormatId, FormatId } from '@/format'
+import { getFormat, isFormatId, isCustomFormatId, FormatId } from '@/format'
 import {
   // wrap
   setOptionValue,
   setFormatOpts,
   addCustomFormat,
   setDefaultFormat,
+  setTabFilterConfig,
 } from '@/storage'
+import { newId } from '@/util/id'
 
 type Prefix = 'simple' | 'fancy-0' | 'fancy-1' | 'fancy-2'
 
@@ -101,7 +103,10 @@ export async function migrateV3Data(v3Data: ReturnType<typeof getV3Data>) {
   }
 
   if (v3Data.ignorePinnedTabs) {
-    await setOptionValue('ignorePinnedTabs', v3Data.ignorePinnedTabs)
+    await setTabFilterConfig({
+      rules: [{ id: newId(), action: 'exclude', type: 'pinned' }],
+      applyToHighlightedTabs: false,
+    })
   }
 
   if (!v3Data.showContextMenu) {
@@ -109,11 +114,17 @@ export async function migrateV3Data(v3Data: ReturnType<typeof getV3Data>) {
   }
 
   if (v3Data.separator != null) {
-    await setFormatOpts('titleUrl1Line', { separator: v3Data.separator })
+    await setFormatOpts('titleUrl1Line', {
+      ...getFormat('titleUrl1Line').opts,
+      separator: v3Data.separator,
+    })
   }
 
   if (v3Data.includeHeader) {
-    await setFormatOpts('htmlTable', { includeHeader: v3Data.includeHeader })
+    await setFormatOpts('htmlTable', {
+      ...getFormat('htmlTable').opts,
+      includeHeader: v3Data.includeHeader,
+    })
   }
 
   let defaultFormatId: FormatId | null = null
@@ -129,8 +140,10 @@ export async function migrateV3Data(v3Data: ReturnType<typeof getV3Data>) {
       template: {
         start: customFormat.start,
         windowStart: '',
+        groupStart: '',
         tab: customFormat.tab,
         tabDelimiter: customFormat.tabDelimiter,
+        groupEnd: '',
         windowEnd: '',
         windowDelimiter: customFormat.tabDelimiter,
         end: customFormat.end,
@@ -0,0 +1,5 @@
+// stand-in for the parts of the extension api that modules read on import. tests stub anything else they use.
+globalThis.chrome = {
+  tabs: { TAB_ID_NONE: -1 },
+  windows: { WINDOW_ID_NONE: -1 },
+} as unknown as typeof chrome